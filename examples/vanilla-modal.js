@@ -3,40 +3,14 @@
  * using @a11y-tools/focus-management
  */
 
-// Import the core utilities (this would be from '@a11y-tools/focus-management' in a real app)
-// const { getFocusableElements, saveFocus, returnFocus } = require('@a11y-tools/focus-management');
-
-// Mock implementation for the example
-const mockFocusManagement = {
-  // Get all focusable elements within a container
-  getFocusableElements: (container, options = {}) => {
-    // In a real app, this would be the actual implementation
-    return Array.from(container.querySelectorAll('button, input, select, textarea, a[href]'));
-  },
-  
-  // Save current focus to restore later
-  saveFocus: () => {
-    window._savedFocusElement = document.activeElement;
-  },
-  
-  // Return to previously saved focus
-  returnFocus: () => {
-    if (window._savedFocusElement) {
-      window._savedFocusElement.focus();
-      window._savedFocusElement = null;
-    }
-  }
-};
-
-// Use these in place of actual imports for the example
-const { getFocusableElements, saveFocus, returnFocus } = mockFocusManagement;
+// Import the focus trap from the library
+const { createFocusTrap } = require('@a11y-tools/focus-management');
 
 // DOM elements we'll need
 let modal = null;
 let openButton = null;
 let closeButton = null;
-let firstInput = null;
-let tabKeyHandler = null;
+let focusTrap = null;
 
 // Create and set up the modal
 function setupModal() {
@@ -86,34 +60,24 @@ function setupModal() {
   modal = document.getElementById('modal');
   openButton = document.getElementById('open-modal');
   closeButton = document.getElementById('close-modal');
-  firstInput = document.getElementById('name-input');
+
+  // Create the focus trap once; it is activated each time the modal opens
+  focusTrap = createFocusTrap(modal, {
+    onEscapeKey: closeModal
+  });
   
   // Set up event listeners
   openButton.addEventListener('click', openModal);
   closeButton.addEventListener('click', closeModal);
-  
-  // Close on escape key
-  document.addEventListener('keydown', (event) => {
-    if (event.key === 'Escape' && !modal.hidden) {
-      closeModal();
-    }
-  });
 }
 
 // Open the modal and trap focus
 function openModal() {
-  // Save the currently focused element (usually the open button)
-  saveFocus();
-  
   // Show the modal
   modal.hidden = false;
   
-  // Focus the first input
-  firstInput.focus();
-  
-  // Set up focus trap
-  tabKeyHandler = handleTabKey;
-  document.addEventListener('keydown', tabKeyHandler);
+  // Save the currently focused element, focus the first focusable element and trap Tab
+  focusTrap.activate();
 }
 
 // Close the modal and restore focus
@@ -121,38 +85,8 @@ function closeModal() {
   // Hide the modal
   modal.hidden = true;
   
-  // Remove the focus trap
-  document.removeEventListener('keydown', tabKeyHandler);
-  
-  // Restore focus to the element that had focus before opening
-  returnFocus();
-}
-
-// Handle tab key to cycle through focusable elements
-function handleTabKey(event) {
-  // Only handle Tab key
-  if (event.key !== 'Tab') return;
-  
-  // Get all focusable elements in the modal
-  const focusableElements = getFocusableElements(modal);
-  
-  // If no focusable elements, do nothing
-  if (focusableElements.length === 0) return;
-  
-  // Get first and last elements
-  const firstElement = focusableElements[0];
-  const lastElement = focusableElements[focusableElements.length - 1];
-  
-  // Handle wrapping with Shift+Tab from first element
-  if (event.shiftKey && document.activeElement === firstElement) {
-    event.preventDefault();
-    lastElement.focus();
-  } 
-  // Handle wrapping with Tab from last element
-  else if (!event.shiftKey && document.activeElement === lastElement) {
-    event.preventDefault();
-    firstElement.focus();
-  }
+  // Remove the focus trap and restore focus to the element that opened the modal
+  focusTrap.deactivate();
 }
 
 // Initialize when the DOM is loaded
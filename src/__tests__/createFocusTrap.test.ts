@@ -0,0 +1,1274 @@
+import { describe, beforeEach, afterEach, test, expect, vi } from 'vitest';
+import { createFocusTrap } from '../createFocusTrap';
+
+describe('createFocusTrap', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="outside">Outside</button>
+      <div id="container">
+        <button id="first">First</button>
+        <input id="middle" type="text" />
+        <button id="last">Last</button>
+      </div>
+    `;
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  const pressKey = (key: string, shiftKey = false) => {
+    const event = new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true });
+    (document.activeElement || document.body).dispatchEvent(event);
+    return event;
+  };
+
+  test('focuses the first tabbable element on activation', () => {
+    const trap = createFocusTrap(getElement('container')).activate();
+
+    vi.runAllTimers();
+
+    expect(trap.active).toBe(true);
+    expect(document.activeElement).toBe(getElement('first'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('does not auto-focus when autoFocus is false', () => {
+    getElement('outside').focus();
+
+    const trap = createFocusTrap(getElement('container'), {
+      autoFocus: false,
+      lockFocus: false,
+    }).activate();
+
+    vi.runAllTimers();
+
+    expect(document.activeElement).toBe(getElement('outside'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('wraps Tab and Shift+Tab at the container boundaries', () => {
+    const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+    getElement('last').focus();
+    expect(pressKey('Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(getElement('first'));
+
+    expect(pressKey('Tab', true).defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(getElement('last'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('wraps Tab from a radio group that ends the container after its checked radio changes', () => {
+    getElement('last').outerHTML = `
+      <input id="radio-1" type="radio" name="size" checked />
+      <input id="radio-2" type="radio" name="size" />
+    `;
+    const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+    // The first Tab builds the cached tab order
+    getElement('radio-1').focus();
+    expect(pressKey('Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(getElement('first'));
+
+    (getElement('radio-2') as HTMLInputElement).checked = true;
+    getElement('radio-2').focus();
+    expect(pressKey('Tab').defaultPrevented).toBe(true);
+    expect(document.activeElement).toBe(getElement('first'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('calls onEscapeKey when Escape is pressed', () => {
+    const onEscapeKey = vi.fn();
+    const trap = createFocusTrap(getElement('container'), { onEscapeKey }).activate();
+
+    pressKey('Escape');
+
+    expect(onEscapeKey).toHaveBeenCalledTimes(1);
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('pulls focus back into the container when lockFocus is enabled', () => {
+    const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+    getElement('outside').focus();
+
+    expect(document.activeElement).toBe(getElement('first'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('stops trapping while paused and resumes after unpause', () => {
+    const onEscapeKey = vi.fn();
+    const trap = createFocusTrap(getElement('container'), {
+      autoFocus: false,
+      onEscapeKey,
+    }).activate();
+
+    trap.pause();
+    expect(trap.paused).toBe(true);
+
+    pressKey('Escape');
+    getElement('outside').focus();
+
+    expect(onEscapeKey).not.toHaveBeenCalled();
+    expect(document.activeElement).toBe(getElement('outside'));
+
+    trap.unpause();
+    expect(trap.paused).toBe(false);
+
+    pressKey('Escape');
+    expect(onEscapeKey).toHaveBeenCalledTimes(1);
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('returns focus to the previously focused element on deactivation', async () => {
+    const onFocusRestore = vi.fn();
+    getElement('outside').focus();
+
+    const trap = createFocusTrap(getElement('container'), { onFocusRestore }).activate();
+    vi.runAllTimers();
+    expect(document.activeElement).toBe(getElement('first'));
+
+    trap.deactivate();
+    await Promise.resolve();
+
+    expect(trap.active).toBe(false);
+    expect(document.activeElement).toBe(getElement('outside'));
+    expect(onFocusRestore).toHaveBeenCalledTimes(1);
+  });
+
+  test('traps focus within the element passed to updateContainerElements', () => {
+    document.body.insertAdjacentHTML(
+      'beforeend',
+      `<div id="other">
+        <button id="other-first">Other first</button>
+        <button id="other-last">Other last</button>
+      </div>`
+    );
+
+    const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+    trap.updateContainerElements(getElement('other'));
+
+    getElement('other-last').focus();
+    pressKey('Tab');
+
+    expect(document.activeElement).toBe(getElement('other-first'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('focuses the initialFocus target on activation', () => {
+    const trap = createFocusTrap(getElement('container'), { initialFocus: '#middle' }).activate();
+
+    vi.runAllTimers();
+
+    expect(document.activeElement).toBe(getElement('middle'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('focuses the container when it has nothing to focus', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    getElement('container').innerHTML = '<p>Nothing to focus</p>';
+
+    const trap = createFocusTrap(getElement('container'), { initialFocus: '#missing' }).activate();
+
+    vi.runAllTimers();
+
+    expect(document.activeElement).toBe(getElement('container'));
+    expect(getElement('container').getAttribute('tabindex')).toBe('-1');
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  test('isolates the background while active when isolateBackground is enabled', () => {
+    const trap = createFocusTrap(getElement('container'), {
+      autoFocus: false,
+      isolateBackground: true,
+    }).activate();
+
+    expect(getElement('outside').hasAttribute('inert')).toBe(true);
+
+    trap.deactivate({ returnFocus: false });
+
+    expect(getElement('outside').hasAttribute('inert')).toBe(false);
+  });
+
+  test('wraps Tab inside a shadow root', () => {
+    const host = document.createElement('div');
+    getElement('container').replaceChildren(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = `
+      <button id="shadow-first">First</button>
+      <button id="shadow-last">Last</button>
+    `;
+
+    const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+    (shadowRoot.getElementById('shadow-last') as HTMLElement).focus();
+    expect(pressKey('Tab').defaultPrevented).toBe(true);
+    expect(shadowRoot.activeElement).toBe(shadowRoot.getElementById('shadow-first'));
+
+    trap.deactivate({ returnFocus: false });
+  });
+
+  describe('Escape handling', () => {
+    test('deactivates the trap when escapeDeactivates is true', () => {
+      const onDeactivate = vi.fn();
+      const trap = createFocusTrap(getElement('container'), {
+        escapeDeactivates: true,
+        returnFocusOnDeactivate: false,
+        onDeactivate,
+      }).activate();
+
+      pressKey('Escape');
+
+      expect(trap.active).toBe(false);
+      expect(onDeactivate).toHaveBeenCalledTimes(1);
+    });
+
+    test('stops Escape from propagating to outer handlers', () => {
+      const windowListener = vi.fn();
+      window.addEventListener('keydown', windowListener);
+
+      const trap = createFocusTrap(getElement('container'), {
+        escapeDeactivates: true,
+        returnFocusOnDeactivate: false,
+      }).activate();
+
+      pressKey('Escape');
+      expect(windowListener).not.toHaveBeenCalled();
+
+      // Once inactive, the trap no longer swallows Escape
+      pressKey('Escape');
+      expect(windowListener).toHaveBeenCalledTimes(1);
+
+      window.removeEventListener('keydown', windowListener);
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('lets escapeDeactivates veto deactivation by returning false', () => {
+      const escapeDeactivates = vi.fn(() => false);
+      const trap = createFocusTrap(getElement('container'), { escapeDeactivates }).activate();
+
+      pressKey('Escape');
+
+      expect(escapeDeactivates).toHaveBeenCalledTimes(1);
+      expect(trap.active).toBe(true);
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('waits for a Promise returned by escapeDeactivates', async () => {
+      let allow: (value: boolean) => void = () => undefined;
+      const escapeDeactivates = vi.fn(
+        () => new Promise<boolean>((resolve) => (allow = resolve))
+      );
+      const trap = createFocusTrap(getElement('container'), {
+        escapeDeactivates,
+        returnFocusOnDeactivate: false,
+      }).activate();
+
+      pressKey('Escape');
+      pressKey('Escape');
+
+      // Repeated presses wait for the pending decision
+      expect(escapeDeactivates).toHaveBeenCalledTimes(1);
+      expect(trap.active).toBe(true);
+
+      allow(true);
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(trap.active).toBe(false);
+    });
+
+    test('only the innermost trap responds to Escape', () => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        '<div id="popover"><button id="popover-button">Action</button></div>'
+      );
+
+      const onOuterEscape = vi.fn();
+      const outer = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        onEscapeKey: onOuterEscape,
+        escapeDeactivates: true,
+      }).activate();
+      const inner = createFocusTrap(getElement('popover'), {
+        autoFocus: false,
+        escapeDeactivates: true,
+        returnFocusOnDeactivate: false,
+      }).activate();
+
+      getElement('popover-button').focus();
+      pressKey('Escape');
+
+      expect(inner.active).toBe(false);
+      expect(outer.active).toBe(true);
+      expect(onOuterEscape).not.toHaveBeenCalled();
+
+      outer.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('removed focused elements', () => {
+    beforeEach(() => {
+      getElement('container').insertAdjacentHTML(
+        'beforeend',
+        `<ul id="list">
+          <li id="item-1"><button id="delete-1">Delete 1</button></li>
+          <li id="item-2"><button id="delete-2">Delete 2</button></li>
+          <li id="item-3"><button id="delete-3">Delete 3</button></li>
+        </ul>`
+      );
+
+      // happy-dom delivers mutation records from its own timer queue
+      vi.useRealTimers();
+    });
+
+    const flushMutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    test('moves focus to the next tabbable element when the focused one is removed', async () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('delete-2').focus();
+      getElement('item-2').remove();
+      await flushMutations();
+
+      expect(document.activeElement).toBe(getElement('delete-3'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('leaves focus on a tabindex="-1" element when something else changes', async () => {
+      getElement('container').insertAdjacentHTML(
+        'afterbegin',
+        '<h2 id="heading" tabindex="-1">Heading</h2>'
+      );
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('heading').focus();
+      getElement('list').insertAdjacentHTML('beforeend', '<li id="item-4">Item 4</li>');
+      getElement('item-1').classList.add('selected');
+      await flushMutations();
+
+      expect(document.activeElement).toBe(getElement('heading'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('falls back to the previous tabbable element', async () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('last').remove();
+      getElement('delete-3').focus();
+      getElement('item-3').remove();
+      await flushMutations();
+
+      expect(document.activeElement).toBe(getElement('delete-2'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('recovers when the focused element is disabled or hidden', async () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('delete-1').focus();
+      getElement('delete-1').setAttribute('disabled', '');
+      await flushMutations();
+      expect(document.activeElement).toBe(getElement('delete-2'));
+
+      getElement('item-2').hidden = true;
+      await flushMutations();
+      expect(document.activeElement).toBe(getElement('delete-3'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('focuses the container when nothing tabbable survives', async () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('delete-1').focus();
+      getElement('container').innerHTML = '<p>Empty</p>';
+      await flushMutations();
+
+      expect(document.activeElement).toBe(getElement('container'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('leaves focus alone once it has moved on', async () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('delete-2').focus();
+      getElement('first').focus();
+      getElement('item-2').remove();
+      await flushMutations();
+
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('boundary', () => {
+    test('stays on the edge element with stop', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        boundary: 'stop',
+      }).activate();
+
+      getElement('last').focus();
+      expect(pressKey('Tab').defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getElement('last'));
+
+      getElement('first').focus();
+      expect(pressKey('Tab', true).defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('still moves between containers with stop', () => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        '<div id="listbox"><button id="option">Option</button></div>'
+      );
+      const trap = createFocusTrap([getElement('container'), getElement('listbox')], {
+        autoFocus: false,
+        boundary: 'stop',
+      }).activate();
+
+      getElement('last').focus();
+      pressKey('Tab');
+      expect(document.activeElement).toBe(getElement('option'));
+
+      pressKey('Tab');
+      expect(document.activeElement).toBe(getElement('option'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('lets focus leave and reports the direction with release', () => {
+      const onBoundaryExit = vi.fn();
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        boundary: 'release',
+        onBoundaryExit,
+      }).activate();
+
+      getElement('last').focus();
+      expect(pressKey('Tab').defaultPrevented).toBe(false);
+      expect(onBoundaryExit).toHaveBeenCalledWith('forward');
+
+      // The browser moves focus on without the trap pulling it back
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('outside'));
+
+      // Coming back locks focus again
+      getElement('first').focus();
+      expect(pressKey('Tab', true).defaultPrevented).toBe(false);
+      expect(onBoundaryExit).toHaveBeenLastCalledWith('backward');
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('applies to focus guards', () => {
+      document.body.insertAdjacentHTML('beforeend', '<button id="after">After</button>');
+      const onBoundaryExit = vi.fn();
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        focusGuards: true,
+        boundary: 'release',
+        onBoundaryExit,
+      }).activate();
+      const after = document.querySelectorAll<HTMLElement>('[data-focus-guard]')[1];
+
+      getElement('last').focus();
+      after.focus();
+      expect(document.activeElement).toBe(getElement('after'));
+      expect(onBoundaryExit).toHaveBeenCalledTimes(1);
+      expect(onBoundaryExit).toHaveBeenCalledWith('forward');
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('keeps focus on the edge element when a guard is reached with stop', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        focusGuards: true,
+        boundary: 'stop',
+      }).activate();
+      const after = document.querySelectorAll<HTMLElement>('[data-focus-guard]')[1];
+
+      getElement('last').focus();
+      after.focus();
+      expect(document.activeElement).toBe(getElement('last'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('focus guards', () => {
+    const getGuards = () =>
+      Array.from(document.querySelectorAll<HTMLElement>('[data-focus-guard]'));
+
+    test('places hidden guards around the container while listening', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        focusGuards: true,
+      }).activate();
+
+      const [before, after] = getGuards();
+      expect(before.nextElementSibling).toBe(getElement('container'));
+      expect(after.previousElementSibling).toBe(getElement('container'));
+      expect(before).toHaveAttribute('tabindex', '0');
+      expect(before).toHaveAttribute('aria-hidden', 'true');
+
+      trap.pause();
+      expect(getGuards()).toHaveLength(0);
+
+      trap.unpause();
+      expect(getGuards()).toHaveLength(2);
+
+      trap.deactivate({ returnFocus: false });
+      expect(getGuards()).toHaveLength(0);
+    });
+
+    test('does not add guards by default', () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      expect(getGuards()).toHaveLength(0);
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('wraps focus that leaves without a Tab keydown', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        focusGuards: true,
+      }).activate();
+      const [before, after] = getGuards();
+
+      getElement('last').focus();
+      after.focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      before.focus();
+      expect(document.activeElement).toBe(getElement('last'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('enters at the matching end when focus arrives from outside', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        lockFocus: false,
+        focusGuards: true,
+      }).activate();
+      const [before, after] = getGuards();
+
+      getElement('outside').focus();
+      before.focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      getElement('outside').focus();
+      after.focus();
+      expect(document.activeElement).toBe(getElement('last'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('moves between containers through their guards', () => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        '<div id="listbox"><button id="option">Option</button></div>'
+      );
+      const trap = createFocusTrap([getElement('container'), getElement('listbox')], {
+        autoFocus: false,
+        focusGuards: true,
+      }).activate();
+      const guards = getGuards();
+      expect(guards).toHaveLength(4);
+
+      getElement('last').focus();
+      guards[1].focus();
+      expect(document.activeElement).toBe(getElement('option'));
+
+      guards[3].focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      guards[0].focus();
+      expect(document.activeElement).toBe(getElement('option'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('keeps guards reachable when isolating the background', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        focusGuards: true,
+        isolateBackground: true,
+      }).activate();
+
+      expect(getElement('outside')).toHaveAttribute('inert');
+      for (const guard of getGuards()) {
+        expect(guard).not.toHaveAttribute('inert');
+      }
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('focusability rules', () => {
+    test('leaves excluded elements out of the tab order', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        exclude: '#last',
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('middle').focus();
+      pressKey('Tab');
+      expect(document.activeElement).toBe(getElement('first'));
+
+      pressKey('Tab', true);
+      expect(document.activeElement).toBe(getElement('middle'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('returns focus to a replacement the rules allow', async () => {
+      document.body.insertAdjacentHTML(
+        'afterbegin',
+        `<div id="toolbar">
+          <button id="trigger">Open</button>
+          <button id="skipped" data-focus-skip>Skipped</button>
+          <button id="after">After</button>
+        </div>`
+      );
+      getElement('trigger').focus();
+
+      const trap = createFocusTrap(getElement('container'), {
+        exclude: '[data-focus-skip]',
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('trigger').remove();
+      trap.deactivate();
+      await Promise.resolve();
+
+      expect(document.activeElement).toBe(getElement('after'));
+    });
+
+    test('focuses elements a custom rule accepts', () => {
+      getElement('container').insertAdjacentHTML(
+        'afterbegin',
+        '<my-picker id="picker"></my-picker>'
+      );
+      const trap = createFocusTrap(getElement('container'), {
+        selectors: 'my-picker',
+        isFocusable: (element, focusableByDefault) =>
+          focusableByDefault || element.tagName === 'MY-PICKER',
+      }).activate();
+      vi.runAllTimers();
+
+      expect(document.activeElement).toBe(getElement('picker'));
+
+      getElement('last').focus();
+      pressKey('Tab');
+      expect(document.activeElement).toBe(getElement('picker'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('multiple containers', () => {
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `<button id="between">Between</button>
+        <div id="listbox">
+          <div id="option-1" role="option" tabindex="0">One</div>
+          <div id="option-2" role="option" tabindex="0">Two</div>
+        </div>`
+      );
+    });
+
+    test('moves Tab across containers in document order', () => {
+      // Given out of order on purpose
+      const trap = createFocusTrap([getElement('listbox'), getElement('container')], {
+        autoFocus: false,
+      }).activate();
+
+      getElement('last').focus();
+      expect(pressKey('Tab').defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getElement('option-1'));
+
+      getElement('option-2').focus();
+      pressKey('Tab');
+      expect(document.activeElement).toBe(getElement('first'));
+
+      pressKey('Tab', true);
+      expect(document.activeElement).toBe(getElement('option-2'));
+
+      getElement('option-1').focus();
+      pressKey('Tab', true);
+      expect(document.activeElement).toBe(getElement('last'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('treats focus in any container as inside the trap', () => {
+      const trap = createFocusTrap([getElement('container'), getElement('listbox')]).activate();
+      vi.runAllTimers();
+
+      getElement('option-2').focus();
+      expect(document.activeElement).toBe(getElement('option-2'));
+
+      getElement('between').focus();
+      expect(document.activeElement).toBe(getElement('option-2'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('adds containers through updateContainerElements', () => {
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('option-1').focus();
+      expect(document.activeElement).not.toBe(getElement('option-1'));
+
+      trap.updateContainerElements([getElement('container'), getElement('listbox')]);
+
+      getElement('option-1').focus();
+      expect(document.activeElement).toBe(getElement('option-1'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('keeps every container reachable when isolating the background', () => {
+      const trap = createFocusTrap([getElement('container'), getElement('listbox')], {
+        autoFocus: false,
+        isolateBackground: true,
+      }).activate();
+
+      expect(getElement('between').hasAttribute('inert')).toBe(true);
+      expect(getElement('container').hasAttribute('inert')).toBe(false);
+      expect(getElement('listbox').hasAttribute('inert')).toBe(false);
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('allowed outside regions', () => {
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `<div id="toast" class="toast"><button id="undo">Undo</button></div>
+        <div id="chat"><button id="chat-open">Chat</button></div>
+        <div id="background"><button id="background-button">Background</button></div>`
+      );
+    });
+
+    test('lets focus visit allowed regions without pulling it back', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        allowedOutside: ['.toast', getElement('chat')],
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('undo').focus();
+      expect(document.activeElement).toBe(getElement('undo'));
+
+      getElement('chat-open').focus();
+      expect(document.activeElement).toBe(getElement('chat-open'));
+
+      getElement('background-button').focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('accepts a predicate', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        allowedOutside: (element) => element.id === 'undo',
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('undo').focus();
+      expect(document.activeElement).toBe(getElement('undo'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('cycles between the trap and allowed regions with F6', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        allowedOutside: ['#chat', '.toast'],
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('middle').focus();
+
+      expect(pressKey('F6').defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getElement('undo'));
+
+      pressKey('F6');
+      expect(document.activeElement).toBe(getElement('chat-open'));
+
+      pressKey('F6');
+      expect(document.activeElement).toBe(getElement('middle'));
+
+      pressKey('F6', true);
+      expect(document.activeElement).toBe(getElement('chat-open'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('keeps allowed regions reachable when isolating the background', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        allowedOutside: '.toast',
+        isolateBackground: true,
+      }).activate();
+
+      expect(getElement('toast').hasAttribute('inert')).toBe(false);
+      expect(getElement('background').hasAttribute('inert')).toBe(true);
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('clicks outside the container', () => {
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `<div id="portal"><button id="day">15</button></div>
+        <div id="backdrop"></div>`
+      );
+    });
+
+    const clickOn = (element: HTMLElement) => {
+      element.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true, cancelable: true }));
+      element.focus();
+    };
+
+    test('pulls focus back after an outside click by default', () => {
+      const trap = createFocusTrap(getElement('container')).activate();
+      vi.runAllTimers();
+
+      clickOn(getElement('day'));
+
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('lets an allowed outside click move focus to what it clicked', () => {
+      const allowOutsideClick = vi.fn(
+        (event: PointerEvent) => getElement('portal').contains(event.target as Node)
+      );
+      const trap = createFocusTrap(getElement('container'), { allowOutsideClick }).activate();
+      vi.runAllTimers();
+
+      clickOn(getElement('day'));
+      expect(document.activeElement).toBe(getElement('day'));
+      expect(allowOutsideClick).toHaveBeenCalledTimes(1);
+
+      // Moving on from the clicked element is not part of the click
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      // Once focus is back inside, the lock applies again
+      getElement('middle').focus();
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('middle'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('keeps the lock after an allowed click that focuses nothing', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        allowOutsideClick: true,
+      }).activate();
+      vi.runAllTimers();
+
+      const backdrop = getElement('backdrop');
+      backdrop.dispatchEvent(new PointerEvent('pointerdown', { bubbles: true, cancelable: true }));
+      backdrop.dispatchEvent(new PointerEvent('pointerup', { bubbles: true, cancelable: true }));
+      (document.activeElement as HTMLElement).blur();
+      vi.runAllTimers();
+
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('deactivates and returns focus when the backdrop is clicked', async () => {
+      getElement('outside').focus();
+      const trap = createFocusTrap(getElement('container'), {
+        clickOutsideDeactivates: true,
+      }).activate();
+      vi.runAllTimers();
+
+      getElement('backdrop').dispatchEvent(new PointerEvent('pointerdown', { bubbles: true }));
+      await Promise.resolve();
+
+      expect(trap.active).toBe(false);
+      expect(document.activeElement).toBe(getElement('outside'));
+    });
+
+    test('leaves focus on a focusable element clicked to deactivate', async () => {
+      getElement('outside').focus();
+      const trap = createFocusTrap(getElement('container'), {
+        clickOutsideDeactivates: true,
+      }).activate();
+      vi.runAllTimers();
+
+      clickOn(getElement('day'));
+      await Promise.resolve();
+
+      expect(trap.active).toBe(false);
+      expect(document.activeElement).toBe(getElement('day'));
+    });
+
+    test('lets the consumer veto deactivation asynchronously', async () => {
+      const clickOutsideDeactivates = vi.fn(() => Promise.resolve(false));
+      const trap = createFocusTrap(getElement('container'), {
+        clickOutsideDeactivates,
+      }).activate();
+      vi.runAllTimers();
+
+      clickOn(getElement('day'));
+      expect(document.activeElement).toBe(getElement('day'));
+
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(trap.active).toBe(true);
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('ignores clicks inside the container', () => {
+      const clickOutsideDeactivates = vi.fn(() => true);
+      const trap = createFocusTrap(getElement('container'), {
+        clickOutsideDeactivates,
+      }).activate();
+
+      clickOn(getElement('middle'));
+
+      expect(clickOutsideDeactivates).not.toHaveBeenCalled();
+      expect(trap.active).toBe(true);
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('waiting before moving focus', () => {
+    const dispatchOn = (element: Element, type: string) =>
+      element.dispatchEvent(new Event(type, { bubbles: true }));
+
+    test('waits for the container transition to end', () => {
+      const trap = createFocusTrap(getElement('container'), { waitFor: 'transition' }).activate();
+
+      vi.advanceTimersByTime(100);
+      dispatchOn(getElement('first'), 'transitionend');
+      expect(document.activeElement).toBe(document.body);
+
+      dispatchOn(getElement('container'), 'transitionend');
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('moves focus anyway once waitTimeout passes', () => {
+      const trap = createFocusTrap(getElement('container'), {
+        waitFor: 'animation',
+        waitTimeout: 300,
+      }).activate();
+
+      vi.advanceTimersByTime(299);
+      expect(document.activeElement).toBe(document.body);
+
+      vi.advanceTimersByTime(1);
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('waits for a supplied Promise', async () => {
+      let resolve!: () => void;
+      const ready = new Promise<void>((resolvePromise) => {
+        resolve = resolvePromise;
+      });
+
+      const trap = createFocusTrap(getElement('container'), { waitFor: ready }).activate();
+
+      await Promise.resolve();
+      expect(document.activeElement).toBe(document.body);
+
+      resolve();
+      await ready;
+      await Promise.resolve();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('waits until the container is visible', () => {
+      getElement('container').style.visibility = 'hidden';
+
+      const trap = createFocusTrap(getElement('container'), { waitFor: 'visible' }).activate();
+
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement).toBe(document.body);
+
+      getElement('container').style.visibility = 'visible';
+      vi.advanceTimersByTime(100);
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('waits for the next animation frame', () => {
+      const trap = createFocusTrap(getElement('container'), { waitFor: 'frame' }).activate();
+
+      expect(document.activeElement).toBe(document.body);
+
+      vi.advanceTimersToNextFrame();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('returns focus after the exit animation ends', () => {
+      getElement('outside').focus();
+      const trap = createFocusTrap(getElement('container'), {
+        returnFocusWaitFor: 'animation',
+      }).activate();
+      vi.runAllTimers();
+
+      trap.deactivate();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      dispatchOn(getElement('container'), 'animationend');
+      expect(document.activeElement).toBe(getElement('outside'));
+    });
+
+    test('keeps the original trigger when reactivated before focus returns', () => {
+      getElement('outside').focus();
+      const trap = createFocusTrap(getElement('container'), {
+        returnFocusWaitFor: 'animation',
+      }).activate();
+      vi.runAllTimers();
+
+      trap.deactivate();
+      trap.activate();
+      vi.runAllTimers();
+
+      trap.deactivate();
+      dispatchOn(getElement('container'), 'animationend');
+      expect(document.activeElement).toBe(getElement('outside'));
+    });
+  });
+
+  describe('iframes and other documents', () => {
+    const createFrame = (html: string) => {
+      const frame = document.createElement('iframe');
+      getElement('container').appendChild(frame);
+      const frameDocument = frame.contentDocument as Document;
+      frameDocument.body.innerHTML = html;
+      return { frame, frameDocument };
+    };
+
+    const pressKeyIn = (target: Element, key: string, shiftKey = false) => {
+      const event = new KeyboardEvent('keydown', { key, shiftKey, bubbles: true, cancelable: true });
+      target.dispatchEvent(event);
+      return event;
+    };
+
+    test('traps focus in a container that lives in an iframe document', () => {
+      const { frameDocument } = createFrame(`
+        <div id="frame-container">
+          <button id="frame-first">First</button>
+          <button id="frame-last">Last</button>
+        </div>
+      `);
+      const frameContainer = frameDocument.getElementById('frame-container') as HTMLElement;
+
+      const trap = createFocusTrap(frameContainer).activate();
+      vi.runAllTimers();
+
+      expect(frameDocument.activeElement).toBe(frameDocument.getElementById('frame-first'));
+
+      const frameLast = frameDocument.getElementById('frame-last') as HTMLElement;
+      frameLast.focus();
+      expect(pressKeyIn(frameLast, 'Tab').defaultPrevented).toBe(true);
+      expect(frameDocument.activeElement).toBe(frameDocument.getElementById('frame-first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('wraps from the last element inside a same-origin iframe', () => {
+      getElement('last').remove();
+      const { frame, frameDocument } = createFrame('<button id="frame-button">Framed</button>');
+      const frameButton = frameDocument.getElementById('frame-button') as HTMLElement;
+
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      // Browsers report the iframe as the outer document's active element
+      frameButton.focus();
+      Object.defineProperty(document, 'activeElement', { configurable: true, get: () => frame });
+
+      let event: KeyboardEvent;
+      try {
+        event = pressKeyIn(frameButton, 'Tab');
+      } finally {
+        delete (document as { activeElement?: Element | null }).activeElement;
+      }
+
+      expect(event.defaultPrevented).toBe(true);
+      expect(document.activeElement).toBe(getElement('first'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+
+    test('wraps Shift+Tab into the last element inside a same-origin iframe', () => {
+      getElement('last').remove();
+      const { frameDocument } = createFrame('<button id="frame-button">Framed</button>');
+
+      const trap = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('first').focus();
+      expect(pressKey('Tab', true).defaultPrevented).toBe(true);
+      expect(frameDocument.activeElement).toBe(frameDocument.getElementById('frame-button'));
+
+      trap.deactivate({ returnFocus: false });
+    });
+  });
+
+  describe('nested traps', () => {
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `<div id="dialog">
+          <button id="confirm">Confirm</button>
+          <button id="cancel">Cancel</button>
+        </div>`
+      );
+    });
+
+    test('pauses the trap beneath when a new trap is activated', () => {
+      const onEscapeKey = vi.fn();
+      const outer = createFocusTrap(getElement('container'), {
+        autoFocus: false,
+        onEscapeKey,
+      }).activate();
+      const inner = createFocusTrap(getElement('dialog'), { autoFocus: false }).activate();
+
+      expect(outer.paused).toBe(true);
+      expect(inner.paused).toBe(false);
+
+      // Only the inner trap pulls focus back
+      getElement('middle').focus();
+      expect(document.activeElement).toBe(getElement('confirm'));
+
+      pressKey('Escape');
+      expect(onEscapeKey).not.toHaveBeenCalled();
+
+      inner.deactivate({ returnFocus: false });
+      outer.deactivate({ returnFocus: false });
+    });
+
+    test('resumes the previous trap and restores its last focused element', () => {
+      const outer = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+      getElement('middle').focus();
+
+      const inner = createFocusTrap(getElement('dialog'), { autoFocus: false }).activate();
+      getElement('cancel').focus();
+
+      inner.deactivate({ returnFocus: false });
+
+      expect(outer.paused).toBe(false);
+      expect(document.activeElement).toBe(getElement('middle'));
+
+      // The outer trap locks focus again
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('middle'));
+
+      outer.deactivate({ returnFocus: false });
+    });
+
+    test('returns focus to the trigger of each trap when closed out of order', async () => {
+      getElement('outside').focus();
+      const outer = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+
+      getElement('middle').focus();
+      const inner = createFocusTrap(getElement('dialog'), {
+        autoFocus: false,
+        lockFocus: false,
+      }).activate();
+
+      outer.deactivate();
+      await Promise.resolve();
+      expect(document.activeElement).toBe(getElement('outside'));
+
+      inner.deactivate();
+      await Promise.resolve();
+      expect(document.activeElement).toBe(getElement('middle'));
+    });
+
+    test('places a trap beneath traps nested inside it that were activated first', () => {
+      getElement('container').insertAdjacentHTML(
+        'beforeend',
+        '<div id="popover"><button id="option">Option</button></div>'
+      );
+
+      // Child effects run before their parent's, so the inner trap activates first
+      const inner = createFocusTrap(getElement('popover')).activate();
+      const outer = createFocusTrap(getElement('container')).activate();
+      vi.runAllTimers();
+
+      expect(outer.paused).toBe(true);
+      expect(inner.paused).toBe(false);
+      expect(document.activeElement).toBe(getElement('option'));
+
+      // Only the inner trap pulls focus back
+      getElement('first').focus();
+      expect(document.activeElement).toBe(getElement('option'));
+
+      inner.deactivate({ returnFocus: false });
+      expect(outer.paused).toBe(false);
+
+      // The outer trap locks focus once the inner one closes
+      getElement('outside').focus();
+      expect(document.activeElement).toBe(getElement('first'));
+
+      outer.deactivate({ returnFocus: false });
+    });
+
+    test('keeps a manually paused trap paused when the trap above it closes', () => {
+      const outer = createFocusTrap(getElement('container'), { autoFocus: false }).activate();
+      outer.pause();
+
+      const inner = createFocusTrap(getElement('dialog'), { autoFocus: false }).activate();
+      inner.deactivate({ returnFocus: false });
+
+      expect(outer.paused).toBe(true);
+
+      outer.deactivate({ returnFocus: false });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, beforeEach, test, expect } from 'vitest';
+import { createFocusableIndex } from '../createFocusableIndex';
+
+describe('createFocusableIndex', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <button id="first">First</button>
+        <ul id="list">
+          <li id="item-1"><button id="button-1">One</button></li>
+          <li id="item-2"><button id="button-2">Two</button></li>
+        </ul>
+        <p id="text">Text</p>
+        <button id="last">Last</button>
+      </div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+  const ids = (elements: Element[]) => elements.map((element) => element.id);
+
+  test('lists the tab order of the container', () => {
+    const index = createFocusableIndex(getElement('container'));
+
+    expect(ids(index.all())).toEqual(['first', 'button-1', 'button-2', 'last']);
+    expect(index.first).toBe(getElement('first'));
+    expect(index.last).toBe(getElement('last'));
+
+    index.disconnect();
+  });
+
+  test('finds neighbours, including of elements that are not indexed', () => {
+    const index = createFocusableIndex(getElement('container'));
+
+    expect(index.next(getElement('button-1'))).toBe(getElement('button-2'));
+    expect(index.prev(getElement('button-1'))).toBe(getElement('first'));
+    expect(index.next(getElement('last'))).toBeNull();
+    expect(index.prev(getElement('first'))).toBeNull();
+
+    expect(index.next(getElement('text'))).toBe(getElement('last'));
+    expect(index.prev(getElement('text'))).toBe(getElement('button-2'));
+
+    index.disconnect();
+  });
+
+  test('picks up added and removed elements', () => {
+    const index = createFocusableIndex(getElement('container'));
+    index.all();
+
+    getElement('item-1').insertAdjacentHTML(
+      'afterend',
+      '<li id="item-new"><button id="button-new">New</button></li>'
+    );
+    expect(ids(index.all())).toEqual(['first', 'button-1', 'button-new', 'button-2', 'last']);
+
+    getElement('item-1').remove();
+    expect(ids(index.all())).toEqual(['first', 'button-new', 'button-2', 'last']);
+
+    index.disconnect();
+  });
+
+  test('picks up attribute changes on elements and their ancestors', () => {
+    const index = createFocusableIndex(getElement('container'));
+    index.all();
+
+    getElement('button-1').setAttribute('disabled', '');
+    expect(ids(index.all())).toEqual(['first', 'button-2', 'last']);
+
+    getElement('list').hidden = true;
+    expect(ids(index.all())).toEqual(['first', 'last']);
+
+    getElement('list').hidden = false;
+    getElement('button-1').removeAttribute('disabled');
+    getElement('text').setAttribute('tabindex', '0');
+    expect(ids(index.all())).toEqual(['first', 'button-1', 'button-2', 'text', 'last']);
+
+    index.disconnect();
+  });
+
+  test('follows the checked radio of a group', () => {
+    getElement('list').innerHTML = `
+      <li><input id="radio-1" type="radio" name="choice" checked /></li>
+      <li><input id="radio-2" type="radio" name="choice" /></li>
+    `;
+    const index = createFocusableIndex(getElement('container'));
+    expect(ids(index.all())).toEqual(['first', 'radio-1', 'last']);
+
+    // Checking a radio changes no attribute
+    (getElement('radio-2') as HTMLInputElement).checked = true;
+    expect(ids(index.all())).toEqual(['first', 'radio-2', 'last']);
+
+    // Removing the checked radio hands the tab stop to the rest of the group
+    getElement('radio-2').closest('li')?.remove();
+    expect(ids(index.all())).toEqual(['first', 'radio-1', 'last']);
+
+    index.disconnect();
+  });
+
+  test('drops elements inside a subtree that becomes aria-hidden', () => {
+    const index = createFocusableIndex(getElement('container'));
+    index.all();
+
+    getElement('item-1').setAttribute('aria-hidden', 'true');
+    expect(ids(index.all())).toEqual(['first', 'button-2', 'last']);
+
+    index.disconnect();
+  });
+
+  test('keeps positive tabindex values first', () => {
+    const index = createFocusableIndex(getElement('container'));
+    index.all();
+
+    getElement('last').setAttribute('tabindex', '1');
+    expect(ids(index.all())).toEqual(['last', 'first', 'button-1', 'button-2']);
+
+    getElement('item-2').remove();
+    expect(ids(index.all())).toEqual(['last', 'first', 'button-1']);
+
+    index.disconnect();
+  });
+
+  test('stays correct after disconnecting', () => {
+    const index = createFocusableIndex(getElement('container'));
+    index.disconnect();
+
+    getElement('item-2').remove();
+    expect(ids(index.all())).toEqual(['first', 'button-1', 'last']);
+  });
+});
@@ -357,3 +357,112 @@ describe('focusFirstElementBySelector', () => {
     expect(mockFocus).toHaveBeenCalled();
   });
 });
+
+describe('focusFirstElement initialFocus', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    // Drop activeElement overrides left by the tests above
+    delete (document as { activeElement?: Element | null }).activeElement;
+    document.body.innerHTML = `
+      <div id="container">
+        <h2 id="title" tabindex="-1">Title</h2>
+        <button id="first">First</button>
+        <input id="name" type="text" />
+      </div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  test('focuses an element given directly', () => {
+    expect(focusFirstElement(getElement('container'), { initialFocus: getElement('name') })).toBe(
+      getElement('name')
+    );
+    expect(document.activeElement).toBe(getElement('name'));
+  });
+
+  test('focuses a selector match, including tabindex="-1" headings', () => {
+    focusFirstElement(getElement('container'), { initialFocus: '#title' });
+
+    expect(document.activeElement).toBe(getElement('title'));
+  });
+
+  test('focuses the element held by a ref', () => {
+    focusFirstElement(getElement('container'), { initialFocus: { current: getElement('name') } });
+
+    expect(document.activeElement).toBe(getElement('name'));
+  });
+
+  test('focuses the element returned by a function', () => {
+    focusFirstElement(getElement('container'), { initialFocus: () => '#name' });
+
+    expect(document.activeElement).toBe(getElement('name'));
+  });
+
+  test('honours autofocus and data-autofocus by default', () => {
+    getElement('name').setAttribute('data-autofocus', '');
+    focusFirstElement(getElement('container'));
+    expect(document.activeElement).toBe(getElement('name'));
+
+    getElement('name').removeAttribute('data-autofocus');
+    getElement('title').setAttribute('autofocus', '');
+    focusFirstElement(getElement('container'));
+    expect(document.activeElement).toBe(getElement('title'));
+  });
+
+  test('skips hidden and inert autofocus targets with tabindex="-1"', () => {
+    getElement('title').setAttribute('data-autofocus', '');
+    getElement('title').setAttribute('hidden', '');
+    focusFirstElement(getElement('container'));
+    expect(document.activeElement).toBe(getElement('first'));
+
+    getElement('title').removeAttribute('hidden');
+    getElement('container').insertAdjacentHTML(
+      'afterbegin',
+      '<div inert><h3 id="inert-title" tabindex="-1" data-autofocus>Inert</h3></div>'
+    );
+    expect(focusFirstElement(getElement('container'))).toBe(getElement('title'));
+  });
+
+  test('falls back to the first tabbable element when the target does not take focus', () => {
+    // Browsers ignore focus() on targets that can't take it, e.g. disabled controls
+    getElement('name').focus = vi.fn();
+
+    expect(focusFirstElement(getElement('container'), { initialFocus: '#name' })).toBe(
+      getElement('first')
+    );
+    expect(document.activeElement).toBe(getElement('first'));
+  });
+
+  test('falls back to the first tabbable element when the target is missing', () => {
+    focusFirstElement(getElement('container'), { initialFocus: '#missing' });
+
+    expect(document.activeElement).toBe(getElement('first'));
+  });
+
+  test('leaves focus alone when initialFocus is false', () => {
+    getElement('name').focus();
+
+    expect(focusFirstElement(getElement('container'), { initialFocus: false })).toBeNull();
+    expect(document.activeElement).toBe(getElement('name'));
+  });
+
+  test('applies focusability rules to autofocus and fallback elements', () => {
+    getElement('title').setAttribute('data-autofocus', '');
+
+    focusFirstElement(getElement('container'), { exclude: ['#title', '#first'] });
+    expect(document.activeElement).toBe(getElement('name'));
+
+    getElement('title').removeAttribute('data-autofocus');
+    focusFirstElement(getElement('container'), {
+      isFocusable: (element, focusableByDefault) => focusableByDefault && element.id !== 'first',
+    });
+    expect(document.activeElement).toBe(getElement('name'));
+  });
+
+  test('skips excluded matches when focusing by selector', () => {
+    expect(
+      focusFirstElementBySelector(getElement('container'), 'button, input', { exclude: 'button' })
+    ).toBe(getElement('name'));
+  });
+});
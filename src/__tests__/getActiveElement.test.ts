@@ -0,0 +1,50 @@
+import { describe, beforeEach, test, expect } from 'vitest';
+import { getActiveElement } from '../getActiveElement';
+
+describe('getActiveElement', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="light">Light</button>
+      <div id="outer-host"></div>
+    `;
+  });
+
+  const createNestedShadowTree = () => {
+    const outerRoot = (document.getElementById('outer-host') as HTMLElement).attachShadow({
+      mode: 'open',
+    });
+    outerRoot.innerHTML = '<div id="inner-host"></div>';
+
+    const innerRoot = (outerRoot.getElementById('inner-host') as HTMLElement).attachShadow({
+      mode: 'open',
+    });
+    innerRoot.innerHTML = '<button id="deep">Deep</button>';
+
+    return { outerRoot, innerRoot };
+  };
+
+  test('returns the focused element in the light DOM', () => {
+    const light = document.getElementById('light') as HTMLElement;
+    light.focus();
+
+    expect(getActiveElement()).toBe(light);
+  });
+
+  test('walks into nested shadow roots', () => {
+    const { innerRoot } = createNestedShadowTree();
+    const deep = innerRoot.getElementById('deep') as HTMLElement;
+    deep.focus();
+
+    expect(document.activeElement).toBe(document.getElementById('outer-host'));
+    expect(getActiveElement()).toBe(deep);
+  });
+
+  test('starts from the given root', () => {
+    const { outerRoot, innerRoot } = createNestedShadowTree();
+    const deep = innerRoot.getElementById('deep') as HTMLElement;
+    deep.focus();
+
+    expect(getActiveElement(outerRoot)).toBe(deep);
+    expect(getActiveElement(innerRoot)).toBe(deep);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, beforeEach, test, expect, vi } from 'vitest';
+import { describe, beforeEach, afterEach, test, expect, vi } from 'vitest';
 import { getFocusableElements } from '../getFocusableElements';
 import * as isFocusableModule from '../isFocusable';
 
@@ -9,6 +9,11 @@ describe('getFocusableElements', () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    // Restore spied implementations so they don't leak into later tests
+    vi.restoreAllMocks();
+  });
+
   test('returns an empty array for null or undefined containers', () => {
     expect(getFocusableElements(null)).toEqual([]);
     expect(getFocusableElements(null)).toEqual([]);
@@ -49,6 +54,24 @@ describe('getFocusableElements', () => {
     expect(elements[3].id).toBe('div1');
   });
 
+  test('includes only one radio per group when onlyTabbable is true', () => {
+    document.body.innerHTML = `
+      <form id="container">
+        <button id="button1">Button 1</button>
+        <input type="radio" id="radio1" name="plan" value="basic" />
+        <input type="radio" id="radio2" name="plan" value="pro" checked />
+        <input type="radio" id="radio3" name="plan" value="team" />
+      </form>
+    `;
+
+    const container = document.getElementById('container');
+    const tabbable = getFocusableElements(container, { onlyTabbable: true });
+    const focusable = getFocusableElements(container);
+
+    expect(tabbable.map((el) => el.id)).toEqual(['button1', 'radio2']);
+    expect(focusable.length).toBe(4);
+  });
+
   test('respects the onlyTabbable option', () => {
     // Mock the isTabbable function
     const mockIsTabbable = vi.spyOn(isFocusableModule, 'isTabbable');
@@ -96,11 +119,8 @@ describe('getFocusableElements', () => {
     expect(elements[1].id).toBe('div2'); // tabindex="2"
 
     // Then elements with tabindex="0" or implicit tabindex in DOM order
-    // The exact order of these might vary, so we just check they're included
     const remainingIds = elements.slice(2).map((el) => el.id);
-    expect(remainingIds).toContain('button1');
-    expect(remainingIds).toContain('div0');
-    expect(remainingIds).toContain('link1');
+    expect(remainingIds).toEqual(['button1', 'div0', 'link1']);
   });
 
   test('handles nested shadow DOM when includeShadowDOM is true', () => {
@@ -133,6 +153,122 @@ describe('getFocusableElements', () => {
     expect(elements[2].id).toBe('shadow-input');
   });
 
+  test('returns nothing for containers inside the shadow root of an inert host', () => {
+    document.body.innerHTML = '<div id="shadow-host" inert></div>';
+
+    const shadowRoot = document.getElementById('shadow-host')?.attachShadow({ mode: 'open' });
+    if (shadowRoot) {
+      shadowRoot.innerHTML = '<div id="panel"><button>Shadow Button</button></div>';
+    }
+
+    const panel = shadowRoot?.getElementById('panel') ?? null;
+    expect(getFocusableElements(panel)).toEqual([]);
+  });
+
+  test('places shadow DOM elements at the position of their host', () => {
+    document.body.innerHTML = `
+      <div id="container">
+        <button id="before">Before</button>
+        <div id="shadow-host"></div>
+        <button id="after">After</button>
+      </div>
+    `;
+
+    const shadowRoot = document.getElementById('shadow-host')?.attachShadow({ mode: 'open' });
+    if (shadowRoot) {
+      shadowRoot.innerHTML = `
+        <button id="shadow-button">Shadow Button</button>
+        <input type="text" id="shadow-input" />
+      `;
+    }
+
+    const elements = getFocusableElements(document.getElementById('container'));
+
+    expect(elements.map((el) => el.id)).toEqual([
+      'before',
+      'shadow-button',
+      'shadow-input',
+      'after',
+    ]);
+  });
+
+  test('orders slotted content by its assigned slot', () => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="shadow-host">
+          <button id="light-default">Default slot</button>
+          <button id="light-header" slot="header">Header slot</button>
+        </div>
+      </div>
+    `;
+
+    const shadowRoot = document.getElementById('shadow-host')?.attachShadow({ mode: 'open' });
+    if (shadowRoot) {
+      shadowRoot.innerHTML = `
+        <slot name="header"></slot>
+        <button id="shadow-button">Shadow Button</button>
+        <slot></slot>
+      `;
+    }
+
+    const elements = getFocusableElements(document.getElementById('container'));
+
+    expect(elements.map((el) => el.id)).toEqual([
+      'light-header',
+      'shadow-button',
+      'light-default',
+    ]);
+  });
+
+  test('applies positive tabindex per focus navigation scope', () => {
+    document.body.innerHTML = `
+      <div id="container">
+        <button id="outer-zero">Outer zero</button>
+        <div id="shadow-host"></div>
+        <button id="outer-one" tabindex="1">Outer one</button>
+      </div>
+    `;
+
+    const shadowRoot = document.getElementById('shadow-host')?.attachShadow({ mode: 'open' });
+    if (shadowRoot) {
+      shadowRoot.innerHTML = `
+        <button id="inner-zero">Inner zero</button>
+        <button id="inner-two" tabindex="2">Inner two</button>
+      `;
+    }
+
+    const elements = getFocusableElements(document.getElementById('container'));
+
+    // The shadow tree is ordered on its own and inserted at the host's position
+    expect(elements.map((el) => el.id)).toEqual([
+      'outer-one',
+      'outer-zero',
+      'inner-two',
+      'inner-zero',
+    ]);
+  });
+
+  test('skips shadow content of hosts with a negative tabindex when onlyTabbable is true', () => {
+    document.body.innerHTML = `
+      <div id="container">
+        <div id="shadow-host" tabindex="-1"></div>
+        <button id="after">After</button>
+      </div>
+    `;
+
+    const shadowRoot = document.getElementById('shadow-host')?.attachShadow({ mode: 'open' });
+    if (shadowRoot) {
+      shadowRoot.innerHTML = '<button id="inner">Inner</button>';
+    }
+
+    const container = document.getElementById('container');
+
+    expect(getFocusableElements(container, { onlyTabbable: true }).map((el) => el.id)).toEqual([
+      'after',
+    ]);
+    expect(getFocusableElements(container).map((el) => el.id)).toEqual(['inner', 'after']);
+  });
+
   test('excludes shadow DOM elements when includeShadowDOM is false', () => {
     // Create main container
     document.body.innerHTML = `
@@ -201,3 +337,145 @@ describe('getFocusableElements', () => {
     }
   });
 });
+
+describe('getFocusableElements on large containers', () => {
+  const ROWS = 100;
+  const DEPTH = 10;
+
+  // Rows of two buttons nested DEPTH levels deep, followed by a hidden copy
+  const createRows = (prefix: string) =>
+    Array.from({ length: ROWS }, (_, row) => {
+      const open = '<div>'.repeat(DEPTH);
+      const close = '</div>'.repeat(DEPTH);
+      return `${open}<button id="${prefix}-edit-${row}">Edit</button><button>Delete</button>${close}`;
+    }).join('');
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="grid">${createRows('visible')}</div>
+      <div id="hidden-grid" style="display: none">${createRows('hidden')}</div>
+    `;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('does a fraction of the style work of checking each candidate separately', () => {
+    const getComputedStyleSpy = vi.spyOn(window, 'getComputedStyle');
+
+    // Per-candidate checks walk every ancestor of every candidate
+    const perCandidate = Array.from(document.body.querySelectorAll('button')).filter((button) =>
+      isFocusableModule.isTabbable(button, { visibility: 'computed' })
+    );
+    const perCandidateCalls = getComputedStyleSpy.mock.calls.length;
+    getComputedStyleSpy.mockClear();
+
+    const traversed = getFocusableElements(document.body, {
+      onlyTabbable: true,
+      visibility: 'computed',
+    });
+    const traversalCalls = getComputedStyleSpy.mock.calls.length;
+
+    expect(traversed).toEqual(perCandidate);
+    expect(traversed).toHaveLength(ROWS * 2);
+    expect(traversalCalls).toBeLessThan(perCandidateCalls / 3);
+  });
+
+  test('resolves each radio group once', () => {
+    const createInputs = (type: string) =>
+      Array.from({ length: ROWS }, (_, row) => {
+        const open = '<div>'.repeat(DEPTH);
+        const close = '</div>'.repeat(DEPTH);
+        return `${open}<input type="${type}" name="selected" value="${row}" />${close}`;
+      }).join('');
+    const countStyleWork = (type: string) => {
+      document.body.innerHTML = `<div id="grid">${createInputs(type)}</div>`;
+      const getComputedStyleSpy = vi.spyOn(window, 'getComputedStyle');
+      const querySelectorAllSpy = vi.spyOn(document, 'querySelectorAll');
+
+      const elements = getFocusableElements(document.body, {
+        onlyTabbable: true,
+        visibility: 'computed',
+      });
+      const work = {
+        elements,
+        styleCalls: getComputedStyleSpy.mock.calls.length,
+        // Style resolution queries the document too, so only count radio lookups
+        queries: querySelectorAllSpy.mock.calls.filter(([selector]) => selector.includes('radio'))
+          .length,
+      };
+      vi.restoreAllMocks();
+      return work;
+    };
+
+    const checkboxes = countStyleWork('checkbox');
+    const radios = countStyleWork('radio');
+
+    expect(radios.elements).toEqual([document.querySelector('input[type="radio"]')]);
+    expect(radios.queries).toBe(1);
+    expect(radios.styleCalls).toBeLessThan(checkboxes.styleCalls * 3);
+  });
+
+  test('never looks inside hidden subtrees', () => {
+    const hiddenGrid = document.getElementById('hidden-grid') as HTMLElement;
+    const getComputedStyleSpy = vi.spyOn(window, 'getComputedStyle');
+
+    getFocusableElements(document.body, { visibility: 'computed' });
+
+    const inspected = getComputedStyleSpy.mock.calls.map(([element]) => element);
+    expect(inspected).toContain(hiddenGrid);
+    expect(inspected.some((element) => element !== hiddenGrid && hiddenGrid.contains(element))).toBe(
+      false
+    );
+  });
+});
+
+describe('getFocusableElements with focusability rules', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="container">
+        <button id="first">First</button>
+        <my-picker id="picker"></my-picker>
+        <div class="preview">
+          <button id="preview-button">Preview</button>
+          <a id="preview-link" href="#">Preview link</a>
+        </div>
+        <input id="last" type="text" />
+      </div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as Element;
+
+  test('finds candidates matching extra selectors that a custom rule accepts', () => {
+    const elements = getFocusableElements(getElement('container'), {
+      selectors: 'my-picker',
+      isFocusable: (element, focusableByDefault) =>
+        focusableByDefault || element.tagName === 'MY-PICKER',
+    });
+
+    expect(elements).toContain(getElement('picker'));
+    expect(elements.indexOf(getElement('picker'))).toBe(1);
+  });
+
+  test('skips excluded subtrees', () => {
+    const elements = getFocusableElements(getElement('container'), { exclude: '.preview' });
+
+    expect(elements).toEqual([getElement('first'), getElement('last')]);
+  });
+
+  test('finds nothing in an excluded container', () => {
+    expect(getFocusableElements(getElement('container'), { exclude: '#container' })).toEqual([]);
+  });
+
+  test('lets a custom rule drop elements', () => {
+    const elements = getFocusableElements(getElement('container'), {
+      onlyTabbable: true,
+      isFocusable: (element, focusableByDefault) => focusableByDefault && element.tagName !== 'A',
+    });
+
+    expect(elements).not.toContain(getElement('preview-link'));
+    expect(elements).toContain(getElement('preview-button'));
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, beforeEach, test, expect } from 'vitest';
+import {
+  getNextTabbable,
+  getPreviousTabbable,
+  focusNext,
+  focusPrevious,
+} from '../getNextTabbable';
+import { createFocusableIndex } from '../createFocusableIndex';
+
+describe('getNextTabbable / getPreviousTabbable', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="outside">Outside</button>
+      <div id="container">
+        <button id="first">First</button>
+        <div id="row">
+          <span id="label">Row label</span>
+          <button id="edit">Edit</button>
+          <button id="delete" disabled>Delete</button>
+        </div>
+        <button id="skip" data-skip>Skip</button>
+        <button id="last">Last</button>
+      </div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+  const container = () => getElement('container');
+
+  test('returns null for a missing element', () => {
+    expect(getNextTabbable(null)).toBeNull();
+    expect(getPreviousTabbable(null)).toBeNull();
+  });
+
+  test('finds adjacent tabbable elements within a container', () => {
+    expect(getNextTabbable(getElement('first'), { container: container() })).toBe(
+      getElement('edit')
+    );
+    expect(getPreviousTabbable(getElement('edit'), { container: container() })).toBe(
+      getElement('first')
+    );
+  });
+
+  test('defaults to the whole document', () => {
+    expect(getNextTabbable(getElement('outside'))).toBe(getElement('first'));
+  });
+
+  test('navigates from elements that are not tabbable themselves', () => {
+    expect(getNextTabbable(getElement('label'), { container: container() })).toBe(
+      getElement('edit')
+    );
+    expect(getPreviousTabbable(getElement('label'), { container: container() })).toBe(
+      getElement('first')
+    );
+    expect(getNextTabbable(getElement('delete'), { container: container() })).toBe(
+      getElement('skip')
+    );
+  });
+
+  test('stops at the edges unless wrap is enabled', () => {
+    expect(getNextTabbable(getElement('last'), { container: container() })).toBeNull();
+    expect(getPreviousTabbable(getElement('first'), { container: container() })).toBeNull();
+
+    expect(getNextTabbable(getElement('last'), { container: container(), wrap: true })).toBe(
+      getElement('first')
+    );
+    expect(
+      getPreviousTabbable(getElement('first'), { container: container(), wrap: true })
+    ).toBe(getElement('last'));
+  });
+
+  test('skips elements rejected by the filter', () => {
+    const filter = (element: Element) => !element.hasAttribute('data-skip');
+
+    expect(getNextTabbable(getElement('edit'), { container: container(), filter })).toBe(
+      getElement('last')
+    );
+    expect(getPreviousTabbable(getElement('last'), { container: container(), filter })).toBe(
+      getElement('edit')
+    );
+  });
+
+  test('follows the shadow DOM tab order', () => {
+    const host = document.createElement('div');
+    getElement('row').after(host);
+    const shadowRoot = host.attachShadow({ mode: 'open' });
+    shadowRoot.innerHTML = `
+      <span id="shadow-label">Label</span>
+      <button id="shadow-button">Shadow button</button>
+    `;
+    const shadowButton = shadowRoot.getElementById('shadow-button');
+    const shadowLabel = shadowRoot.getElementById('shadow-label');
+
+    expect(getNextTabbable(getElement('edit'), { container: container() })).toBe(shadowButton);
+    expect(getNextTabbable(shadowButton, { container: container() })).toBe(getElement('skip'));
+    expect(getPreviousTabbable(shadowLabel, { container: container() })).toBe(getElement('edit'));
+  });
+
+  test('reads the tab order from a focusable index', () => {
+    const index = createFocusableIndex(container());
+
+    expect(getNextTabbable(getElement('first'), { index })).toBe(getElement('edit'));
+    expect(getPreviousTabbable(getElement('first'), { index, wrap: true })).toBe(
+      getElement('last')
+    );
+
+    getElement('delete').removeAttribute('disabled');
+    expect(getNextTabbable(getElement('edit'), { index })).toBe(getElement('delete'));
+
+    index.disconnect();
+  });
+});
+
+describe('focusNext / focusPrevious', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <div id="toolbar">
+        <button id="bold">Bold</button>
+        <button id="italic">Italic</button>
+      </div>
+    `;
+  });
+
+  test('moves focus to the adjacent tabbable element', () => {
+    const toolbar = document.getElementById('toolbar');
+    const bold = document.getElementById('bold') as HTMLElement;
+    const italic = document.getElementById('italic') as HTMLElement;
+
+    bold.focus();
+    expect(focusNext(bold, { container: toolbar })).toBe(italic);
+    expect(document.activeElement).toBe(italic);
+
+    expect(focusPrevious(italic, { container: toolbar })).toBe(bold);
+    expect(document.activeElement).toBe(bold);
+  });
+
+  test('returns null and keeps focus when there is nowhere to go', () => {
+    const toolbar = document.getElementById('toolbar');
+    const italic = document.getElementById('italic') as HTMLElement;
+
+    italic.focus();
+    expect(focusNext(italic, { container: toolbar })).toBeNull();
+    expect(document.activeElement).toBe(italic);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, beforeEach, test, expect } from 'vitest';
-import { isFocusable, isTabbable } from '../isFocusable';
+import { describe, beforeEach, test, expect, vi } from 'vitest';
+import { isFocusable, isTabbable, IsFocusableOptions } from '../isFocusable';
 
 describe('isFocusable', () => {
   beforeEach(() => {
@@ -67,6 +67,159 @@ describe('isFocusable', () => {
     expect(isFocusable(document.getElementById('button1'))).toBe(false);
     expect(isFocusable(document.getElementById('button2'))).toBe(false);
   });
+
+  test('respects hosts hiding their shadow roots', () => {
+    document.body.innerHTML = `
+      <div id="host1" inert></div>
+      <div id="host2" hidden></div>
+      <div id="host3"></div>
+    `;
+
+    const buttons = ['host1', 'host2', 'host3'].map((id) => {
+      const shadowRoot = (document.getElementById(id) as HTMLElement).attachShadow({
+        mode: 'open',
+      });
+      shadowRoot.innerHTML = '<button>Shadow button</button>';
+      return shadowRoot.querySelector('button');
+    });
+
+    expect(isFocusable(buttons[0])).toBe(false);
+    expect(isFocusable(buttons[1])).toBe(false);
+    expect(isFocusable(buttons[2])).toBe(true);
+  });
+
+  test('always checks ancestors for elements passed by callers', () => {
+    document.body.innerHTML = `
+      <div hidden>
+        <button id="button1">Button in hidden container</button>
+      </div>
+    `;
+
+    // The traversal's context used to be a public option that skipped these checks
+    const options = { ancestors: { disabledByFieldset: false } } as IsFocusableOptions;
+    expect(isFocusable(document.getElementById('button1'), options)).toBe(false);
+    expect(isTabbable(document.getElementById('button1'), options)).toBe(false);
+  });
+});
+
+describe('HTML focus rules', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('respects the inert attribute on the element and its ancestors', () => {
+    document.body.innerHTML = `
+      <button id="button1" inert>Inert button</button>
+      <div inert>
+        <button id="button2">Button in inert container</button>
+      </div>
+      <button id="button3">Regular button</button>
+    `;
+
+    expect(isFocusable(document.getElementById('button1'))).toBe(false);
+    expect(isFocusable(document.getElementById('button2'))).toBe(false);
+    expect(isFocusable(document.getElementById('button3'))).toBe(true);
+  });
+
+  test('treats controls in a disabled fieldset as disabled outside its first legend', () => {
+    document.body.innerHTML = `
+      <fieldset disabled>
+        <legend><input id="input1" type="checkbox" /></legend>
+        <legend><input id="input2" type="checkbox" /></legend>
+        <input id="input3" type="text" />
+        <button id="button1">Button</button>
+        <a id="link1" href="#">Link</a>
+      </fieldset>
+    `;
+
+    expect(isFocusable(document.getElementById('input1'))).toBe(true);
+    expect(isFocusable(document.getElementById('input2'))).toBe(false);
+    expect(isFocusable(document.getElementById('input3'))).toBe(false);
+    expect(isFocusable(document.getElementById('button1'))).toBe(false);
+    // Links are not form controls and remain focusable
+    expect(isFocusable(document.getElementById('link1'))).toBe(true);
+
+    expect(isTabbable(document.getElementById('input1'))).toBe(true);
+    expect(isTabbable(document.getElementById('input3'))).toBe(false);
+  });
+
+  test('ignores content of closed details elements except the summary', () => {
+    document.body.innerHTML = `
+      <details id="closed">
+        <summary id="summary1">Closed <button id="button1">In summary</button></summary>
+        <summary id="summary2">Second summary</summary>
+        <button id="button2">Hidden content</button>
+      </details>
+      <details id="open" open>
+        <summary id="summary3">Open</summary>
+        <button id="button3">Visible content</button>
+      </details>
+    `;
+
+    expect(isFocusable(document.getElementById('summary1'))).toBe(true);
+    expect(isFocusable(document.getElementById('button1'))).toBe(true);
+    expect(isFocusable(document.getElementById('summary2'))).toBe(false);
+    expect(isFocusable(document.getElementById('button2'))).toBe(false);
+    expect(isFocusable(document.getElementById('summary3'))).toBe(true);
+    expect(isFocusable(document.getElementById('button3'))).toBe(true);
+
+    // The details elements themselves are not focusable
+    expect(isFocusable(document.getElementById('closed'))).toBe(false);
+    expect(isFocusable(document.getElementById('open'))).toBe(false);
+  });
+
+  test('does not treat a summary outside of details as focusable', () => {
+    document.body.innerHTML = '<summary id="summary1">Orphan summary</summary>';
+
+    expect(isFocusable(document.getElementById('summary1'))).toBe(false);
+  });
+
+  test('treats iframe, embed and object as focusable', () => {
+    document.body.innerHTML = `
+      <iframe id="iframe1" title="Frame"></iframe>
+      <embed id="embed1" type="image/svg+xml" />
+      <object id="object1" type="image/svg+xml"></object>
+    `;
+
+    expect(isFocusable(document.getElementById('iframe1'))).toBe(true);
+    expect(isFocusable(document.getElementById('embed1'))).toBe(true);
+    expect(isFocusable(document.getElementById('object1'))).toBe(true);
+    expect(isTabbable(document.getElementById('iframe1'))).toBe(true);
+  });
+
+  test('recognizes every contenteditable editing host value', () => {
+    document.body.innerHTML = `
+      <div id="div1" contenteditable="">Empty value</div>
+      <div id="div2" contenteditable="plaintext-only">Plain text</div>
+      <div id="div3" contenteditable="TRUE">Uppercase</div>
+      <div id="div4" contenteditable="false">Not editable</div>
+    `;
+
+    expect(isFocusable(document.getElementById('div1'))).toBe(true);
+    expect(isFocusable(document.getElementById('div2'))).toBe(true);
+    expect(isFocusable(document.getElementById('div3'))).toBe(true);
+    expect(isFocusable(document.getElementById('div4'))).toBe(false);
+  });
+
+  test('only treats area elements as focusable when an image uses their map', () => {
+    document.body.innerHTML = `
+      <map name="used">
+        <area id="area1" href="#one" alt="One" />
+        <area id="area2" alt="No href" />
+      </map>
+      <img src="map.png" usemap="#used" alt="Map" />
+      <map name="unused">
+        <area id="area3" href="#three" alt="Three" />
+      </map>
+      <area id="area4" href="#four" alt="Four" />
+    `;
+
+    expect(isFocusable(document.getElementById('area1'))).toBe(true);
+    expect(isFocusable(document.getElementById('area2'))).toBe(false);
+    expect(isFocusable(document.getElementById('area3'))).toBe(false);
+    expect(isFocusable(document.getElementById('area4'))).toBe(false);
+    expect(isTabbable(document.getElementById('area1'))).toBe(true);
+  });
 });
 
 describe('isTabbable', () => {
@@ -110,4 +263,240 @@ describe('isTabbable', () => {
     expect(isTabbable(document.getElementById('button1'))).toBe(false);
     expect(isTabbable(document.getElementById('input1'))).toBe(false);
   });
-}); 
\ No newline at end of file
+}); 
+describe('visibility strategies', () => {
+  beforeEach(() => {
+    document.head.innerHTML = '';
+    document.body.innerHTML = '';
+  });
+
+  test('inline strategy ignores stylesheet rules', () => {
+    document.head.innerHTML = '<style>.is-hidden { display: none; }</style>';
+    document.body.innerHTML = '<button id="button1" class="is-hidden">Button</button>';
+
+    expect(isFocusable(document.getElementById('button1'))).toBe(true);
+    expect(isFocusable(document.getElementById('button1'), { visibility: 'inline' })).toBe(true);
+  });
+
+  test('computed strategy respects stylesheet rules', () => {
+    document.head.innerHTML = `
+      <style>
+        .is-hidden { display: none; }
+        .is-invisible { visibility: hidden; }
+      </style>
+    `;
+    document.body.innerHTML = `
+      <button id="button1" class="is-hidden">Hidden by class</button>
+      <div class="is-hidden"><button id="button2">Inside hidden container</button></div>
+      <div class="is-invisible"><button id="button3">Inside invisible container</button></div>
+      <button id="button4">Visible</button>
+    `;
+
+    const options = { visibility: 'computed' } as const;
+    expect(isFocusable(document.getElementById('button1'), options)).toBe(false);
+    expect(isFocusable(document.getElementById('button2'), options)).toBe(false);
+    expect(isFocusable(document.getElementById('button3'), options)).toBe(false);
+    expect(isFocusable(document.getElementById('button4'), options)).toBe(true);
+  });
+
+  test('computed strategy respects content-visibility: hidden on ancestors', () => {
+    document.body.innerHTML = `
+      <div id="div1" tabindex="0" style="content-visibility: hidden;">
+        <button id="button1">Skipped content</button>
+      </div>
+    `;
+
+    const options = { visibility: 'computed' } as const;
+    expect(isFocusable(document.getElementById('div1'), options)).toBe(true);
+    expect(isFocusable(document.getElementById('button1'), options)).toBe(false);
+  });
+
+  test('checkVisibility strategy uses the native method when available', () => {
+    document.body.innerHTML = '<button id="button1">Button</button>';
+    const button = document.getElementById('button1') as HTMLElement & {
+      checkVisibility?: () => boolean;
+    };
+
+    const checkVisibility = vi.fn(() => false);
+    button.checkVisibility = checkVisibility;
+
+    expect(isFocusable(button, { visibility: 'checkVisibility' })).toBe(false);
+    expect(checkVisibility).toHaveBeenCalledWith({
+      checkVisibilityCSS: true,
+      visibilityProperty: true,
+    });
+  });
+
+  test('checkVisibility strategy falls back to computed styles', () => {
+    document.body.innerHTML = `
+      <style>.is-hidden { display: none; }</style>
+      <button id="button1" class="is-hidden">Button</button>
+    `;
+    const button = document.getElementById('button1') as HTMLElement & {
+      checkVisibility?: unknown;
+    };
+    button.checkVisibility = undefined;
+
+    expect(isFocusable(button, { visibility: 'checkVisibility' })).toBe(false);
+  });
+
+  test('clientRects strategy treats elements without layout boxes as hidden', () => {
+    document.body.innerHTML = '<button id="button1">Button</button>';
+    const button = document.getElementById('button1') as HTMLElement;
+
+    vi.spyOn(button, 'getClientRects').mockReturnValue([] as unknown as DOMRectList);
+
+    expect(isFocusable(button, { visibility: 'clientRects' })).toBe(false);
+  });
+
+  test('clientRects strategy treats content of zero-size clipping containers as hidden', () => {
+    document.body.innerHTML = `
+      <div id="collapsed" style="height: 0; overflow: hidden;">
+        <button id="button1">Collapsed</button>
+      </div>
+      <div id="open">
+        <button id="button2">Open</button>
+      </div>
+    `;
+
+    const rect = (width: number, height: number) =>
+      ({ width, height, top: 0, left: 0, right: width, bottom: height }) as DOMRect;
+    const oneRect = [rect(80, 20)] as unknown as DOMRectList;
+
+    for (const id of ['button1', 'button2']) {
+      vi.spyOn(document.getElementById(id) as HTMLElement, 'getClientRects').mockReturnValue(
+        oneRect
+      );
+    }
+    vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (
+      this: Element
+    ) {
+      return this.id === 'collapsed' ? rect(200, 0) : rect(200, 100);
+    });
+
+    const options = { visibility: 'clientRects' } as const;
+    expect(isFocusable(document.getElementById('button1'), options)).toBe(false);
+    expect(isFocusable(document.getElementById('button2'), options)).toBe(true);
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe('radio group tabbability', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('only the checked radio of a named group is tabbable', () => {
+    document.body.innerHTML = `
+      <input id="radio1" type="radio" name="size" value="s" />
+      <input id="radio2" type="radio" name="size" value="m" checked />
+      <input id="radio3" type="radio" name="size" value="l" />
+    `;
+
+    expect(isTabbable(document.getElementById('radio1'))).toBe(false);
+    expect(isTabbable(document.getElementById('radio2'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio3'))).toBe(false);
+
+    // All radios remain focusable
+    expect(isFocusable(document.getElementById('radio1'))).toBe(true);
+  });
+
+  test('the first focusable radio is tabbable when none is checked', () => {
+    document.body.innerHTML = `
+      <input id="radio1" type="radio" name="size" value="s" disabled />
+      <input id="radio2" type="radio" name="size" value="m" />
+      <input id="radio3" type="radio" name="size" value="l" />
+    `;
+
+    expect(isTabbable(document.getElementById('radio1'))).toBe(false);
+    expect(isTabbable(document.getElementById('radio2'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio3'))).toBe(false);
+  });
+
+  test('resolves groups per form owner', () => {
+    document.body.innerHTML = `
+      <form id="form1">
+        <input id="radio1" type="radio" name="size" value="s" />
+        <input id="radio2" type="radio" name="size" value="m" checked />
+      </form>
+      <form id="form2">
+        <input id="radio3" type="radio" name="size" value="s" />
+        <input id="radio4" type="radio" name="size" value="m" />
+      </form>
+      <input id="radio5" type="radio" name="size" value="s" />
+      <input id="radio6" type="radio" name="size" value="m" />
+    `;
+
+    expect(isTabbable(document.getElementById('radio1'))).toBe(false);
+    expect(isTabbable(document.getElementById('radio2'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio3'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio4'))).toBe(false);
+    expect(isTabbable(document.getElementById('radio5'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio6'))).toBe(false);
+  });
+
+  test('radios without a name are always tabbable', () => {
+    document.body.innerHTML = `
+      <input id="radio1" type="radio" />
+      <input id="radio2" type="radio" />
+    `;
+
+    expect(isTabbable(document.getElementById('radio1'))).toBe(true);
+    expect(isTabbable(document.getElementById('radio2'))).toBe(true);
+  });
+});
+
+describe('focusability rules', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  test('excluded elements and their descendants are not focusable', () => {
+    document.body.innerHTML = `
+      <div class="preview">
+        <button id="inside">Inside</button>
+      </div>
+      <button id="excluded" data-readonly>Excluded</button>
+      <button id="included">Included</button>
+    `;
+
+    const exclude = ['.preview', '[data-readonly]'];
+    expect(isFocusable(document.getElementById('inside'), { exclude })).toBe(false);
+    expect(isTabbable(document.getElementById('excluded'), { exclude })).toBe(false);
+    expect(isTabbable(document.getElementById('included'), { exclude })).toBe(true);
+  });
+
+  test('a custom rule receives the default result and has the final say', () => {
+    document.body.innerHTML = `
+      <my-picker id="picker"></my-picker>
+      <button id="button">Button</button>
+    `;
+    const picker = document.getElementById('picker') as Element;
+    const button = document.getElementById('button') as Element;
+    const rule = vi.fn(
+      (element: Element, focusableByDefault: boolean) =>
+        element.tagName === 'MY-PICKER' || (focusableByDefault && element !== button)
+    );
+
+    expect(isFocusable(picker, { isFocusable: rule })).toBe(true);
+    expect(isTabbable(picker, { isFocusable: rule })).toBe(true);
+    expect(isFocusable(button, { isFocusable: rule })).toBe(false);
+    expect(rule).toHaveBeenCalledWith(picker, false);
+    expect(rule).toHaveBeenCalledWith(button, true);
+  });
+
+  test('a custom rule cannot make hidden or disabled elements focusable', () => {
+    document.body.innerHTML = `
+      <button id="disabled" disabled>Disabled</button>
+      <div hidden><button id="hidden">Hidden</button></div>
+      <button id="negative" tabindex="-1">Negative</button>
+    `;
+    const rule = vi.fn(() => true);
+
+    expect(isFocusable(document.getElementById('disabled'), { isFocusable: rule })).toBe(false);
+    expect(isFocusable(document.getElementById('hidden'), { isFocusable: rule })).toBe(false);
+    expect(isFocusable(document.getElementById('negative'), { isFocusable: rule })).toBe(false);
+    expect(rule).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, beforeEach, test, expect } from 'vitest';
+import { isolateBackground } from '../isolateBackground';
+
+describe('isolateBackground', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <header id="header">Header</header>
+      <main id="main">
+        <aside id="sidebar">Sidebar</aside>
+        <section id="content">
+          <div id="modal"><button>Inside</button></div>
+          <p id="sibling">Sibling</p>
+        </section>
+      </main>
+      <div id="toast" aria-hidden="false">Toast</div>
+      <script id="script"></script>
+      <div id="dialog"><button>Dialog</button></div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  test('marks every sibling up the ancestor chain as inert', () => {
+    const release = isolateBackground(getElement('modal'));
+
+    expect(getElement('sibling').hasAttribute('inert')).toBe(true);
+    expect(getElement('sidebar').hasAttribute('inert')).toBe(true);
+    expect(getElement('header').hasAttribute('inert')).toBe(true);
+    expect(getElement('toast').hasAttribute('inert')).toBe(true);
+
+    // The container and its ancestors stay reachable
+    expect(getElement('modal').hasAttribute('inert')).toBe(false);
+    expect(getElement('content').hasAttribute('inert')).toBe(false);
+    expect(getElement('main').hasAttribute('inert')).toBe(false);
+
+    // Non-rendered elements are skipped
+    expect(getElement('script').hasAttribute('inert')).toBe(false);
+
+    release();
+
+    expect(document.querySelectorAll('[inert]').length).toBe(0);
+  });
+
+  test('restores original values only after the last container is released', () => {
+    getElement('header').setAttribute('inert', '');
+
+    const releaseModal = isolateBackground(getElement('modal'));
+    const releaseModalAgain = isolateBackground(getElement('modal'));
+
+    releaseModal();
+    expect(getElement('sidebar').hasAttribute('inert')).toBe(true);
+
+    releaseModalAgain();
+    expect(getElement('sidebar').hasAttribute('inert')).toBe(false);
+
+    // Pre-existing attribute values survive
+    expect(getElement('header').hasAttribute('inert')).toBe(true);
+  });
+
+  test('keeps a container reachable when it lives inside already isolated content', () => {
+    const releaseDialog = isolateBackground(getElement('dialog'));
+    expect(getElement('main').hasAttribute('inert')).toBe(true);
+
+    // The modal sits inside <main>, which the dialog just hid
+    const releaseModal = isolateBackground(getElement('modal'));
+    expect(getElement('main').hasAttribute('inert')).toBe(false);
+    expect(getElement('dialog').hasAttribute('inert')).toBe(true);
+
+    releaseModal();
+    expect(getElement('main').hasAttribute('inert')).toBe(true);
+    expect(getElement('dialog').hasAttribute('inert')).toBe(false);
+
+    releaseDialog();
+    expect(document.querySelectorAll('[inert]').length).toBe(0);
+  });
+
+  test('keeps several containers reachable from each other', () => {
+    const release = isolateBackground([getElement('modal'), getElement('dialog')]);
+
+    expect(getElement('dialog').hasAttribute('inert')).toBe(false);
+    expect(getElement('main').hasAttribute('inert')).toBe(false);
+    expect(getElement('header').hasAttribute('inert')).toBe(true);
+    expect(getElement('sibling').hasAttribute('inert')).toBe(true);
+
+    release();
+
+    expect(document.querySelectorAll('[inert]').length).toBe(0);
+  });
+
+  test('falls back to aria-hidden when inert is unsupported', () => {
+    // Temporarily remove inert support from the prototype chain
+    let owner: object | null = HTMLElement.prototype;
+    while (owner && !Object.prototype.hasOwnProperty.call(owner, 'inert')) {
+      owner = Object.getPrototypeOf(owner);
+    }
+    const descriptor = owner ? Object.getOwnPropertyDescriptor(owner, 'inert') : undefined;
+    if (owner) {
+      delete (owner as { inert?: boolean }).inert;
+    }
+
+    try {
+      const release = isolateBackground(getElement('modal'));
+
+      expect(getElement('sidebar').getAttribute('aria-hidden')).toBe('true');
+      expect(getElement('toast').getAttribute('aria-hidden')).toBe('true');
+
+      release();
+
+      expect(getElement('sidebar').hasAttribute('aria-hidden')).toBe(false);
+      expect(getElement('toast').getAttribute('aria-hidden')).toBe('false');
+    } finally {
+      if (owner && descriptor) {
+        Object.defineProperty(owner, 'inert', descriptor);
+      }
+    }
+  });
+});
@@ -0,0 +1,388 @@
+import { describe, beforeEach, test, expect, vi } from 'vitest';
+import {
+  saveFocus,
+  returnFocus,
+  pushFocus,
+  popFocus,
+  peekFocus,
+  clearFocusHistory,
+  createFocusManager,
+} from '../returnFocus';
+
+describe('focus history', () => {
+  beforeEach(() => {
+    clearFocusHistory();
+    document.body.innerHTML = `
+      <button id="drawer-trigger">Open drawer</button>
+      <div id="drawer">
+        <button id="dialog-trigger">Open dialog</button>
+      </div>
+      <div id="dialog">
+        <button id="dialog-button">Inside dialog</button>
+      </div>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  test('restores nested saves in reverse order', () => {
+    getElement('drawer-trigger').focus();
+    saveFocus();
+
+    getElement('dialog-trigger').focus();
+    saveFocus();
+
+    getElement('dialog-button').focus();
+
+    expect(returnFocus()).toBe(getElement('dialog-trigger'));
+    expect(document.activeElement).toBe(getElement('dialog-trigger'));
+
+    expect(returnFocus()).toBe(getElement('drawer-trigger'));
+    expect(document.activeElement).toBe(getElement('drawer-trigger'));
+  });
+
+  test('pushes, peeks and pops entries by owner', () => {
+    getElement('drawer-trigger').focus();
+    expect(pushFocus('drawer')).toBe(getElement('drawer-trigger'));
+
+    getElement('dialog-trigger').focus();
+    pushFocus('dialog');
+
+    expect(peekFocus('drawer')).toBe(getElement('drawer-trigger'));
+    expect(peekFocus('dialog')).toBe(getElement('dialog-trigger'));
+
+    // Closing out of order still returns each owner's element
+    expect(popFocus('drawer')).toBe(getElement('drawer-trigger'));
+    expect(peekFocus('drawer')).toBeNull();
+    expect(popFocus('dialog')).toBe(getElement('dialog-trigger'));
+  });
+
+  test('keeps owned and anonymous entries apart', () => {
+    getElement('drawer-trigger').focus();
+    saveFocus();
+
+    getElement('dialog-trigger').focus();
+    saveFocus('dialog');
+
+    getElement('dialog-button').focus();
+
+    expect(returnFocus()).toBe(getElement('drawer-trigger'));
+    expect(returnFocus({ ownerId: 'dialog' })).toBe(getElement('dialog-trigger'));
+  });
+
+  test('replaces the previous entry when the same owner saves again', () => {
+    getElement('drawer-trigger').focus();
+    pushFocus('drawer');
+
+    getElement('dialog-trigger').focus();
+    pushFocus('drawer');
+
+    expect(popFocus('drawer')).toBe(getElement('dialog-trigger'));
+    expect(popFocus('drawer')).toBeNull();
+  });
+
+  test('keeps entries for elements removed from the DOM', () => {
+    getElement('drawer-trigger').focus();
+    pushFocus('drawer');
+
+    getElement('dialog-trigger').focus();
+    const dialogTrigger = pushFocus('dialog');
+
+    // The drawer and its trigger for the dialog are removed
+    getElement('drawer').remove();
+
+    expect(popFocus('drawer')).toBe(getElement('drawer-trigger'));
+    expect(peekFocus('dialog')).toBe(dialogTrigger);
+  });
+
+  test('drops stale entries for elements removed from the DOM', () => {
+    getElement('drawer-trigger').focus();
+    pushFocus('drawer');
+
+    getElement('dialog').insertAdjacentHTML('beforeend', '<button>Unnamed</button>');
+    (getElement('dialog').lastElementChild as HTMLElement).focus();
+    pushFocus('dialog');
+
+    // A route change replaces the whole page
+    document.body.innerHTML = '<main><button id="drawer-trigger">Open drawer</button></main>';
+
+    expect(peekFocus('drawer')).not.toBeNull();
+    expect(peekFocus('dialog')).toBeNull();
+  });
+
+  test('clears the whole history', () => {
+    getElement('drawer-trigger').focus();
+    pushFocus();
+    pushFocus('drawer');
+
+    clearFocusHistory();
+
+    expect(peekFocus()).toBeNull();
+    expect(peekFocus('drawer')).toBeNull();
+  });
+
+  test('focuses the fallback element when nothing was saved', () => {
+    const fallbackElement = getElement('dialog-button');
+
+    expect(returnFocus({ fallbackElement })).toBe(fallbackElement);
+    expect(document.activeElement).toBe(fallbackElement);
+  });
+
+  test('scopes each focus manager to its own entry', () => {
+    const drawerManager = createFocusManager();
+    const dialogManager = createFocusManager();
+
+    getElement('drawer-trigger').focus();
+    drawerManager.saveFocus();
+
+    getElement('dialog-trigger').focus();
+    dialogManager.saveFocus();
+
+    getElement('dialog-button').focus();
+
+    expect(drawerManager.returnFocus()).toBe(getElement('drawer-trigger'));
+    expect(dialogManager.returnFocus()).toBe(getElement('dialog-trigger'));
+  });
+});
+
+describe('restoring removed elements', () => {
+  beforeEach(() => {
+    clearFocusHistory();
+    document.body.innerHTML = `
+      <div id="grid" tabindex="-1">
+        <div id="row-1"><button id="delete-1">Delete 1</button></div>
+        <div id="row-2"><button id="delete-2">Delete 2</button></div>
+        <div id="row-3"><button id="delete-3">Delete 3</button></div>
+      </div>
+      <button id="outside">Outside</button>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  test('focuses the next surviving sibling when the saved element was removed', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').remove();
+
+    expect(returnFocus()).toBe(getElement('delete-3'));
+    expect(document.activeElement).toBe(getElement('delete-3'));
+  });
+
+  test('falls back to the previous sibling when nothing follows', () => {
+    getElement('delete-3').focus();
+    saveFocus();
+
+    getElement('row-3').remove();
+
+    expect(returnFocus()).toBe(getElement('delete-2'));
+  });
+
+  test('finds a re-rendered element by id', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').innerHTML = '<button id="delete-2">Delete 2 again</button>';
+
+    expect(returnFocus()).toBe(getElement('delete-2'));
+    expect(getElement('delete-2').textContent).toBe('Delete 2 again');
+  });
+
+  test('finds a re-rendered element by data-focus-key', () => {
+    getElement('row-1').innerHTML = '<button data-focus-key="first">Delete 1</button>';
+    (getElement('row-1').firstElementChild as HTMLElement).focus();
+    saveFocus();
+
+    getElement('row-1').innerHTML = '<button data-focus-key="first">Delete 1 again</button>';
+
+    expect(returnFocus()).toBe(getElement('row-1').firstElementChild);
+  });
+
+  test('focuses the nearest focusable ancestor when no sibling survives', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-1').remove();
+    getElement('row-2').remove();
+    getElement('row-3').remove();
+    getElement('outside').remove();
+
+    expect(returnFocus({ restoreStrategies: ['sibling', 'ancestor'] })).toBe(getElement('grid'));
+  });
+
+  test('tries strategies in the given order', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').remove();
+
+    expect(returnFocus({ restoreStrategies: ['ancestor', 'sibling'] })).toBe(getElement('grid'));
+  });
+
+  test('uses a custom resolver with the saved record', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').remove();
+
+    const resolver = vi.fn(() => getElement('outside'));
+
+    expect(returnFocus({ restoreStrategies: [resolver] })).toBe(getElement('outside'));
+    expect(resolver).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'delete-2', element: expect.any(HTMLElement) })
+    );
+  });
+
+  test('restores a removed element after other saves and returns', () => {
+    const manager = createFocusManager();
+    getElement('delete-2').focus();
+    manager.saveFocus();
+
+    getElement('row-2').remove();
+
+    // Unrelated history operations must not forget the manager's removed element
+    getElement('outside').focus();
+    saveFocus();
+    returnFocus();
+
+    expect(manager.returnFocus()).toBe(getElement('delete-3'));
+    expect(document.activeElement).toBe(getElement('delete-3'));
+  });
+
+  test('skips replacements ruled out by the focusability rules', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').remove();
+
+    expect(returnFocus({ exclude: '#row-3' })).toBe(getElement('delete-1'));
+  });
+
+  test('uses the fallback element when no strategy finds a replacement', () => {
+    getElement('delete-2').focus();
+    saveFocus();
+
+    getElement('row-2').remove();
+
+    const fallbackElement = getElement('outside');
+    expect(returnFocus({ restoreStrategies: [], fallbackElement })).toBe(fallbackElement);
+  });
+});
+
+describe('restoring selection and scroll', () => {
+  beforeEach(() => {
+    clearFocusHistory();
+    document.body.innerHTML = `
+      <div id="scroller" style="overflow: auto; height: 50px">
+        <textarea id="notes">Hello focus management</textarea>
+        <div id="editor" contenteditable="true">Rich text</div>
+      </div>
+      <button id="dialog-button">Inside dialog</button>
+    `;
+  });
+
+  const getElement = (id: string) => document.getElementById(id) as HTMLElement;
+
+  test('restores the text selection of a textarea', () => {
+    const notes = getElement('notes') as HTMLTextAreaElement;
+    notes.focus();
+    notes.setSelectionRange(6, 11, 'backward');
+    saveFocus();
+
+    getElement('dialog-button').focus();
+    notes.setSelectionRange(0, 0);
+
+    returnFocus();
+
+    expect(document.activeElement).toBe(notes);
+    expect(notes.selectionStart).toBe(6);
+    expect(notes.selectionEnd).toBe(11);
+    expect(notes.selectionDirection).toBe('backward');
+  });
+
+  test('restores the selected range inside a contenteditable element', () => {
+    const editor = getElement('editor');
+    editor.focus();
+    const range = document.createRange();
+    range.setStart(editor.firstChild as Node, 2);
+    range.setEnd(editor.firstChild as Node, 6);
+    document.getSelection()?.removeAllRanges();
+    document.getSelection()?.addRange(range);
+    saveFocus();
+
+    getElement('dialog-button').focus();
+    document.getSelection()?.removeAllRanges();
+
+    returnFocus();
+
+    const restored = document.getSelection()?.getRangeAt(0);
+    expect(restored?.startOffset).toBe(2);
+    expect(restored?.endOffset).toBe(6);
+  });
+
+  test('restores the scroll offsets of scrolled ancestors', () => {
+    const scroller = getElement('scroller');
+    scroller.scrollTop = 40;
+    getElement('notes').focus();
+    saveFocus();
+
+    getElement('dialog-button').focus();
+    scroller.scrollTop = 0;
+
+    returnFocus();
+
+    expect(scroller.scrollTop).toBe(40);
+  });
+
+  test('skips state restoration when restoreState is false', () => {
+    const notes = getElement('notes') as HTMLTextAreaElement;
+    notes.focus();
+    notes.setSelectionRange(6, 11);
+    saveFocus();
+
+    notes.setSelectionRange(0, 0);
+
+    returnFocus({ restoreState: false });
+
+    expect(notes.selectionStart).toBe(0);
+  });
+});
+
+describe('other documents', () => {
+  beforeEach(() => {
+    clearFocusHistory();
+    document.body.innerHTML = '<iframe id="frame"></iframe>';
+  });
+
+  const getFrameDocument = () =>
+    (document.getElementById('frame') as HTMLIFrameElement).contentDocument as Document;
+
+  test('saves and restores focus inside an iframe document', () => {
+    const frameDocument = getFrameDocument();
+    frameDocument.body.innerHTML = `
+      <button id="trigger">Trigger</button>
+      <button id="other">Other</button>
+    `;
+    const trigger = frameDocument.getElementById('trigger') as HTMLElement;
+    trigger.focus();
+
+    expect(saveFocus(undefined, frameDocument)).toBe(trigger);
+
+    (frameDocument.getElementById('other') as HTMLElement).focus();
+
+    expect(returnFocus()).toBe(trigger);
+    expect(frameDocument.activeElement).toBe(trigger);
+  });
+
+  test('falls back to the body of the saved element document', () => {
+    const frameDocument = getFrameDocument();
+    frameDocument.body.innerHTML = '<button id="trigger">Trigger</button>';
+    (frameDocument.getElementById('trigger') as HTMLElement).focus();
+    saveFocus(undefined, frameDocument);
+
+    frameDocument.body.innerHTML = '';
+
+    expect(returnFocus()).toBe(frameDocument.body);
+  });
+});
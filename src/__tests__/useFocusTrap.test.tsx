@@ -3,7 +3,8 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { useFocusTrap } from '../useFocusTrap';
 import * as focusUtilities from '../returnFocus';
 import * as focusFirstElementModule from '../focusFirstElement';
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
 
 // Mock the focus utilities to track calls and control behavior
 vi.mock('../returnFocus', async () => {
@@ -65,6 +66,51 @@ function TestModal({
   );
 }
 
+// Combobox whose listbox renders in a portal
+function ComboboxWithPortal() {
+  const listboxRef = useRef<HTMLDivElement>(null);
+  const trapRef = useFocusTrap<HTMLDivElement>({ autoFocus: false, containerRefs: [listboxRef] });
+
+  return (
+    <div>
+      <div ref={trapRef}>
+        <input data-testid="combobox" role="combobox" />
+      </div>
+      <button data-testid="outside-button">Outside</button>
+      {createPortal(
+        <div ref={listboxRef} role="listbox">
+          <div data-testid="option" role="option" tabIndex={0}>
+            Option
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+}
+
+// Dialog whose popover mounts in the same commit, so the popover's trap activates first
+function DialogWithPopover() {
+  const trapRef = useFocusTrap<HTMLDivElement>({ autoFocus: false });
+
+  return (
+    <div ref={trapRef} role="dialog">
+      <button data-testid="dialog-button">Dialog</button>
+      <Popover />
+    </div>
+  );
+}
+
+function Popover() {
+  const trapRef = useFocusTrap<HTMLDivElement>({ autoFocus: false });
+
+  return (
+    <div ref={trapRef}>
+      <button data-testid="popover-button">Option</button>
+    </div>
+  );
+}
+
 // Toggleable container component
 function ToggleableContainer() {
   const [isOpen, setIsOpen] = useState(true);
@@ -154,6 +200,30 @@ describe('useFocusTrap', () => {
     expect(document.activeElement).toBe(lastButton);
   });
 
+  it('should treat focus in additional containers as inside the trap', () => {
+    render(<ComboboxWithPortal />);
+
+    const combobox = screen.getByTestId('combobox');
+    const option = screen.getByTestId('option');
+
+    combobox.focus();
+    option.focus();
+    expect(document.activeElement).toBe(option);
+
+    screen.getByTestId('outside-button').focus();
+    expect(document.activeElement).toBe(option);
+  });
+
+  it('should keep a nested trap mounted in the same commit on top', () => {
+    render(<DialogWithPopover />);
+
+    const popoverButton = screen.getByTestId('popover-button');
+    popoverButton.focus();
+
+    screen.getByTestId('dialog-button').focus();
+    expect(document.activeElement).toBe(popoverButton);
+  });
+
   it('should call onEscapeKey when Escape key is pressed', () => {
     const handleEscapeKey = vi.fn();
     render(<TestModal onEscapeKey={handleEscapeKey} />);
@@ -0,0 +1,1298 @@
+import { getFocusableElements } from './getFocusableElements';
+import { getNextTabbable, getPreviousTabbable } from './getNextTabbable';
+import { focusFirstElement, InitialFocus } from './focusFirstElement';
+import { saveFocus, returnFocus, popFocus } from './returnFocus';
+import { pushFocusTrap, removeFocusTrap, StackedFocusTrap } from './focusTrapStack';
+import { isolateBackground } from './isolateBackground';
+import {
+  isFocusable,
+  isTabbable,
+  canFocusProgrammatically,
+  getFocusabilityRules,
+  FocusabilityRules,
+  IsFocusableOptions,
+  VisibilityStrategy,
+} from './isFocusable';
+import { getActiveElement, containsComposed } from './getActiveElement';
+import { getFrameDocument } from './ownerDocument';
+import { scheduleFocus, FocusWaitStrategy } from './scheduleFocus';
+import {
+  createFocusableIndex,
+  FocusableIndex,
+  FOCUSABILITY_ATTRIBUTES,
+} from './createFocusableIndex';
+
+/**
+ * Regions outside the trap that focus may visit while it is active:
+ * selectors, elements, a list of either, or a predicate that receives the focused element
+ */
+export type AllowedOutside =
+  | string
+  | Element
+  | (string | Element)[]
+  | ((element: Element) => boolean);
+
+/**
+ * What Tab does at either end of the trap:
+ * - `'wrap'`: move to the other end
+ * - `'stop'`: stay on the edge element
+ * - `'release'`: let focus leave the trap and report it through `onBoundaryExit`
+ */
+export type FocusTrapBoundary = 'wrap' | 'stop' | 'release';
+
+/**
+ * The direction in which focus crossed the trap's boundary
+ */
+export type FocusBoundaryDirection = 'forward' | 'backward';
+
+/**
+ * Configuration options for a focus trap
+ */
+export interface FocusTrapOptions extends FocusabilityRules {
+  /**
+   * Whether to auto-focus within the container when the trap is activated
+   * @default true
+   */
+  autoFocus?: boolean;
+
+  /**
+   * Whether to save the focused element on activation so it can be restored later
+   * @default true
+   */
+  restoreFocus?: boolean;
+
+  /**
+   * Whether to pull focus back into the container when it moves outside, and to move it to the
+   * nearest surviving neighbour when the focused element is removed, disabled or hidden
+   * @default true
+   */
+  lockFocus?: boolean;
+
+  /**
+   * Whether to return focus to the previously focused element when the trap is deactivated
+   * @default true
+   */
+  returnFocusOnDeactivate?: boolean;
+
+  /**
+   * Callback fired when the Escape key is pressed while the trap is active.
+   * Only the innermost active trap receives Escape.
+   */
+  onEscapeKey?: (event: KeyboardEvent) => void;
+
+  /**
+   * Whether pressing Escape deactivates the trap. When a function is given, returning
+   * `false` (or a Promise resolving to `false`) vetoes the deactivation.
+   * Escape handled by the trap does not propagate to outer handlers.
+   * @default false
+   */
+  escapeDeactivates?: boolean | ((event: KeyboardEvent) => boolean | Promise<boolean>);
+
+  /**
+   * Whether a click outside the container may move focus there, e.g. into a date picker
+   * rendered in a portal. When a function is given, it decides on each outside `pointerdown`.
+   * `lockFocus` only lets the focus move caused by that click through: clicks that focus
+   * nothing leave the lock in place, and later moves elsewhere outside are pulled back.
+   * @default false
+   */
+  allowOutsideClick?: boolean | ((event: PointerEvent) => boolean);
+
+  /**
+   * Whether a `pointerdown` outside the container deactivates the trap. When a function is
+   * given, returning `false` (or a Promise resolving to `false`) keeps the trap active.
+   * Focus is only returned when the click did not land on something focusable.
+   * @default false
+   */
+  clickOutsideDeactivates?: boolean | ((event: PointerEvent) => boolean | Promise<boolean>);
+
+  /**
+   * Regions outside the container that focus may visit without being pulled back,
+   * such as toasts with actions, cookie banners or a chat widget.
+   * Regions given as selectors or elements also stay reachable when the background is isolated.
+   * @see AllowedOutside
+   */
+  allowedOutside?: AllowedOutside;
+
+  /**
+   * Key that moves focus between the trap and the allowed outside regions given as
+   * selectors or elements; Shift reverses the direction. `false` disables the shortcut.
+   * @default 'F6'
+   */
+  regionCycleKey?: string | false;
+
+  /**
+   * Whether to place invisible, tabbable guard elements before and after each container.
+   * Focus that reaches a guard wraps to the matching end of the trap, which also catches focus
+   * leaving without a Tab `keydown`: from the address bar, through screen-reader Tab emulation,
+   * or past a handler that stops the event's propagation.
+   * @default false
+   */
+  focusGuards?: boolean;
+
+  /**
+   * What Tab does at either end of the trap. `'release'` suits non-modal regions such as
+   * toolbars and side panels: focus moves on and `lockFocus` leaves it alone until it comes back.
+   * @see FocusTrapBoundary
+   * @default 'wrap'
+   */
+  boundary?: FocusTrapBoundary;
+
+  /**
+   * Callback fired when Tab moves focus out of the trap with `boundary: 'release'`,
+   * e.g. to close a popover or move on to the next region
+   */
+  onBoundaryExit?: (direction: FocusBoundaryDirection) => void;
+
+  /**
+   * Whether to hide everything outside the container from screen readers and pointer input
+   * while the trap is active, by marking each sibling up the ancestor chain as `inert`
+   * (falling back to `aria-hidden="true"`). Original attribute values are restored on deactivation.
+   * @default false
+   */
+  isolateBackground?: boolean;
+
+  /**
+   * How to determine whether elements inside the container are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+
+  /**
+   * Element to focus when the trap is activated, instead of the first tabbable element.
+   * `false` leaves focus where it is. Without a target, elements marked with `autofocus`
+   * or `data-autofocus` are focused first, and the container itself is the last resort.
+   * @see InitialFocus
+   */
+  initialFocus?: InitialFocus;
+
+  /**
+   * What to wait for before moving focus into the container on activation,
+   * e.g. `'transition'` when the container fades in
+   * @see FocusWaitStrategy
+   * @default 20
+   */
+  waitFor?: FocusWaitStrategy;
+
+  /**
+   * What to wait for before returning focus on deactivation, e.g. `'animation'` for an
+   * exit animation. By default focus returns right after the current task.
+   * @see FocusWaitStrategy
+   */
+  returnFocusWaitFor?: FocusWaitStrategy;
+
+  /**
+   * Longest time to wait for a transition, animation or visibility before moving focus anyway,
+   * in milliseconds
+   * @default 1000
+   */
+  waitTimeout?: number;
+
+  /**
+   * Callback fired after the trap has been activated
+   */
+  onActivate?: () => void;
+
+  /**
+   * Callback fired after the trap has been deactivated
+   */
+  onDeactivate?: () => void;
+
+  /**
+   * Callback fired when focus is restored to the original element
+   */
+  onFocusRestore?: () => void;
+}
+
+/**
+ * Options for deactivating a focus trap
+ */
+export interface DeactivateFocusTrapOptions {
+  /**
+   * Whether to return focus to the previously focused element.
+   * Overrides `returnFocusOnDeactivate` for this call only.
+   */
+  returnFocus?: boolean;
+}
+
+/**
+ * A framework-agnostic focus trap instance
+ */
+export interface FocusTrap {
+  /**
+   * Whether the trap is currently active
+   */
+  readonly active: boolean;
+
+  /**
+   * Whether the trap is active but temporarily paused, either manually
+   * or because another trap was activated on top of it
+   */
+  readonly paused: boolean;
+
+  /**
+   * Starts trapping focus within the container
+   */
+  activate(): FocusTrap;
+
+  /**
+   * Stops trapping focus and optionally restores the previously focused element
+   */
+  deactivate(options?: DeactivateFocusTrapOptions): FocusTrap;
+
+  /**
+   * Temporarily stops trapping focus without deactivating the trap
+   */
+  pause(): FocusTrap;
+
+  /**
+   * Resumes trapping focus after a call to `pause`
+   */
+  unpause(): FocusTrap;
+
+  /**
+   * Replaces the container element or elements the trap keeps focus within
+   */
+  updateContainerElements(container: HTMLElement | HTMLElement[]): FocusTrap;
+}
+
+/**
+ * Normalizes one or more containers into a list without duplicates, in document order
+ * @internal
+ */
+function toContainerList(container: HTMLElement | HTMLElement[]): HTMLElement[] {
+  const containers = (Array.isArray(container) ? container : [container]).filter(
+    (element, index, list) => !!element && list.indexOf(element) === index
+  );
+
+  return containers.sort((a, b) =>
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+/**
+ * Gets the documents of same-origin iframes inside a container, including nested ones
+ * @internal
+ */
+function getFrameDocuments(container: Element | Document): Document[] {
+  const documents: Document[] = [];
+
+  for (const frame of Array.from(container.querySelectorAll('iframe, frame'))) {
+    const frameDocument = getFrameDocument(frame);
+    if (frameDocument) {
+      documents.push(frameDocument, ...getFrameDocuments(frameDocument));
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Expands a container's tab order, replacing each same-origin iframe with
+ * the tabbable elements inside it
+ * @internal
+ */
+function getTabSequence(tabOrder: Element[], options: IsFocusableOptions): Element[] {
+  const sequence: Element[] = [];
+
+  for (const element of tabOrder) {
+    const frameDocument = getFrameDocument(element);
+    const frameElements = frameDocument?.body
+      ? getTabSequence(
+          getFocusableElements(frameDocument.body, { ...options, onlyTabbable: true }),
+          options
+        )
+      : [];
+
+    if (frameElements.length > 0) {
+      sequence.push(...frameElements);
+    } else {
+      sequence.push(element);
+    }
+  }
+
+  return sequence;
+}
+
+/**
+ * A guard element placed next to one of the trap's containers
+ * @internal
+ */
+interface FocusGuard {
+  /**
+   * The guard element itself
+   */
+  element: HTMLElement;
+
+  /**
+   * Index of the container the guard belongs to
+   */
+  containerIndex: number;
+
+  /**
+   * Whether the guard sits before or after its container
+   */
+  position: 'before' | 'after';
+}
+
+/**
+ * Creates an invisible guard element that can receive focus but is hidden from screen readers
+ * @internal
+ */
+function createFocusGuard(ownerDocument: Document): HTMLElement {
+  const guard = ownerDocument.createElement('span');
+  guard.setAttribute('tabindex', '0');
+  guard.setAttribute('aria-hidden', 'true');
+  guard.setAttribute('data-focus-guard', '');
+  guard.style.cssText =
+    'position:fixed;top:0;left:0;width:1px;height:1px;margin:-1px;padding:0;border:0;' +
+    'overflow:hidden;clip:rect(0,0,0,0);white-space:nowrap;';
+  return guard;
+}
+
+/**
+ * Counter used to give each trap its own focus history owner
+ * @internal
+ */
+let focusTrapCount = 0;
+
+/**
+ * Creates a focus trap that keeps keyboard focus within a container element.
+ * Works in any JavaScript environment; `useFocusTrap` is a thin React wrapper around it.
+ *
+ * Several containers can share one trap, e.g. a combobox and its listbox rendered in a portal.
+ * Tab moves across them in document order, and focus in any of them counts as inside the trap.
+ *
+ * Active traps share a global stack: activating a trap pauses the one beneath it,
+ * and deactivating it resumes the previous trap and restores that trap's last focused element.
+ *
+ * @param container - The element or elements to trap focus within
+ * @param options - Configuration options for the focus trap
+ * @returns A focus trap instance that must be activated before it takes effect
+ *
+ * @example
+ * ```ts
+ * const trap = createFocusTrap(document.getElementById('modal'), {
+ *   onEscapeKey: () => closeModal(),
+ * });
+ *
+ * // When opening the modal
+ * trap.activate();
+ *
+ * // When closing the modal
+ * trap.deactivate();
+ * ```
+ */
+export function createFocusTrap(
+  container: HTMLElement | HTMLElement[],
+  options: FocusTrapOptions = {}
+): FocusTrap {
+  const {
+    autoFocus = true,
+    restoreFocus = true,
+    lockFocus = true,
+    returnFocusOnDeactivate = true,
+    onEscapeKey,
+    escapeDeactivates = false,
+    allowOutsideClick = false,
+    clickOutsideDeactivates = false,
+    allowedOutside,
+    regionCycleKey = 'F6',
+    focusGuards = false,
+    boundary = 'wrap',
+    onBoundaryExit,
+    isolateBackground: shouldIsolateBackground = false,
+    visibility = 'inline',
+    initialFocus,
+    waitFor = 20,
+    returnFocusWaitFor,
+    waitTimeout = 1000,
+    onActivate,
+    onDeactivate,
+    onFocusRestore,
+  } = options;
+
+  // Visibility and custom rules decide what is focusable everywhere the trap looks
+  const focusabilityOptions: IsFocusableOptions = { ...getFocusabilityRules(options), visibility };
+
+  // Owner of this trap's entry in the focus history, so traps closed out of order
+  // still restore their own trigger
+  const ownerId = `a11y-tools:focus-trap:${++focusTrapCount}`;
+
+  let containerElements = toContainerList(container);
+  let active = false;
+  let paused = false;
+  let suspended = false;
+  let listening = false;
+  let hasSavedFocus = false;
+  let lastFocusedElement: Element | null = null;
+  let escapeDecisionPending = false;
+  let outsideFocusAllowed = false;
+  // Whether an allowed outside click may still move focus outside, until its focus move is done
+  let clickFocusAllowed = false;
+  let clickFocusTimeout: ReturnType<typeof setTimeout> | null = null;
+  let clickDecisionPending = false;
+  let releaseBackground: (() => void) | null = null;
+  let cancelAutoFocus: (() => void) | null = null;
+  let cancelReturnFocus: (() => void) | null = null;
+  let listenedDocument: Document | null = null;
+  let keyDocuments: Document[] = [];
+  let loadTargets: HTMLElement[] = [];
+  let guards: FocusGuard[] = [];
+  let observer: MutationObserver | null = null;
+  let focusableIndexes: FocusableIndex[] = [];
+  // The trap's tab order when focus last moved inside it, to find the neighbours of a removed element
+  let tabOrderSnapshot: Element[] = [];
+
+  // Whether a node is inside any of the trap's containers
+  const isInsideTrap = (node: Node | null) =>
+    containerElements.some((containerElement) => containsComposed(containerElement, node));
+
+  // Allowed outside regions that can be enumerated, in document order
+  const getAllowedRegions = (): Element[] => {
+    if (!allowedOutside || typeof allowedOutside === 'function') {
+      return [];
+    }
+
+    const ownerDocument = getPrimaryContainer().ownerDocument;
+    const regions: Element[] = [];
+    for (const entry of Array.isArray(allowedOutside) ? allowedOutside : [allowedOutside]) {
+      const elements =
+        typeof entry === 'string' ? Array.from(ownerDocument.querySelectorAll(entry)) : [entry];
+      for (const element of elements) {
+        if (element.isConnected && !regions.includes(element) && !isInsideTrap(element)) {
+          regions.push(element);
+        }
+      }
+    }
+
+    return regions.sort((a, b) =>
+      a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+    );
+  };
+
+  // Whether an element outside the containers is in a region focus may visit
+  const isInAllowedRegion = (element: Element) => {
+    if (typeof allowedOutside === 'function') {
+      return allowedOutside(element);
+    }
+    return getAllowedRegions().some((region) => containsComposed(region, element));
+  };
+
+  // The tab order of a container, kept up to date by its focusable index while listening
+  const getContainerSequence = (containerIndex: number) =>
+    getTabSequence(
+      focusableIndexes[containerIndex]?.all() ??
+        getFocusableElements(containerElements[containerIndex], {
+          ...focusabilityOptions,
+          onlyTabbable: true,
+        }),
+      focusabilityOptions
+    );
+
+  // The first container in document order hosts fallbacks, waits and listeners
+  const getPrimaryContainer = () => containerElements[0];
+
+  // Focus the initial target or the first tabbable element of the first container that has one
+  const focusFirstInContainers = (focusOptions: { initialFocus?: InitialFocus } = {}) => {
+    for (const containerElement of containerElements) {
+      const focused = focusFirstElement(containerElement, {
+        ...focusabilityOptions,
+        ...focusOptions,
+      });
+      if (focused) {
+        return focused;
+      }
+    }
+    return null;
+  };
+
+  // Focus the container itself when it has nothing tabbable inside
+  const focusContainer = () => {
+    const containerElement = getPrimaryContainer();
+
+    // Set tabindex to -1 if not already set to allow focus
+    if (!containerElement.hasAttribute('tabindex')) {
+      containerElement.setAttribute('tabindex', '-1');
+    }
+
+    containerElement.focus({ preventScroll: true });
+  };
+
+  const handleEscapeKey = (event: KeyboardEvent) => {
+    if (!onEscapeKey && !escapeDeactivates) {
+      return;
+    }
+
+    // This is the innermost trap, so keep Escape from reaching outer handlers
+    event.stopPropagation();
+
+    if (onEscapeKey) {
+      onEscapeKey(event);
+    }
+
+    // Ignore repeated presses while an async veto is still pending
+    if (!escapeDeactivates || escapeDecisionPending) {
+      return;
+    }
+
+    const decision = escapeDeactivates === true ? true : escapeDeactivates(event);
+
+    if (typeof decision === 'boolean') {
+      if (decision) {
+        trap.deactivate();
+      }
+      return;
+    }
+
+    escapeDecisionPending = true;
+    Promise.resolve(decision).then(
+      (allowed) => {
+        escapeDecisionPending = false;
+
+        if (allowed && active) {
+          trap.deactivate();
+        }
+      },
+      (error) => {
+        escapeDecisionPending = false;
+        console.error('Error in escapeDeactivates:', error);
+      }
+    );
+  };
+
+  // Move focus to the next (or previous) of the trap and the allowed outside regions
+  const cycleRegions = (event: KeyboardEvent) => {
+    const regions = getAllowedRegions();
+    if (regions.length === 0) {
+      return;
+    }
+
+    event.preventDefault();
+
+    // Region 0 is the trap itself; focus anywhere else counts as being in the trap
+    const activeElement = getActiveElement(getPrimaryContainer().ownerDocument);
+    const currentIndex = isInsideTrap(activeElement)
+      ? 0
+      : regions.findIndex((region) => containsComposed(region, activeElement)) + 1;
+    const count = regions.length + 1;
+
+    for (let step = 1; step < count; step++) {
+      const index = (currentIndex + (event.shiftKey ? -step : step) + count) % count;
+
+      if (index === 0) {
+        restoreLastFocusedElement();
+        return;
+      }
+
+      // Skip regions with nothing to focus
+      if (focusFirstElement(regions[index - 1], focusabilityOptions)) {
+        return;
+      }
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleEscapeKey(event);
+      return;
+    }
+
+    if (regionCycleKey && event.key === regionCycleKey) {
+      cycleRegions(event);
+      return;
+    }
+
+    // Only handle tab key
+    if (event.key !== 'Tab') {
+      return;
+    }
+
+    // Get the tabbable elements of each container, including inside same-origin iframes
+    const sequences = containerElements
+      .map((_, containerIndex) => getContainerSequence(containerIndex))
+      .filter((sequence) => sequence.length > 0);
+
+    // If there are no tabbable elements, keep focus on the container itself
+    if (sequences.length === 0) {
+      event.preventDefault();
+      getPrimaryContainer().focus();
+      return;
+    }
+
+    // Compare against the deeply focused element so wrapping works inside shadow roots
+    const activeElement = getActiveElement(getPrimaryContainer().ownerDocument);
+    const sequenceIndex = activeElement
+      ? sequences.findIndex((sequence) => sequence.includes(activeElement))
+      : -1;
+    if (sequenceIndex === -1) {
+      return;
+    }
+
+    // Get first and last tabbable element of the focused container
+    const sequence = sequences[sequenceIndex];
+    const firstElement = sequence[0];
+    const lastElement = sequence[sequence.length - 1];
+
+    // Only Shift+Tab on the first element or Tab on the last element leaves the container
+    const direction = event.shiftKey ? -1 : 1;
+    if (activeElement !== (direction === 1 ? lastElement : firstElement)) {
+      return;
+    }
+
+    // Move on to the previous or next container
+    const nextIndex = sequenceIndex + direction;
+    if (nextIndex >= 0 && nextIndex < sequences.length) {
+      const next = sequences[nextIndex];
+      event.preventDefault();
+      (next[direction === 1 ? 0 : next.length - 1] as HTMLElement).focus();
+      return;
+    }
+
+    // At either end of the trap
+    if (boundary === 'release') {
+      // Let the browser move focus out
+      releaseFocus(direction);
+      return;
+    }
+
+    event.preventDefault();
+
+    if (boundary === 'wrap') {
+      const wrapped = direction === 1 ? sequences[0] : sequences[sequences.length - 1];
+      (wrapped[direction === 1 ? 0 : wrapped.length - 1] as HTMLElement).focus();
+    }
+  };
+
+  // Let focus leave the trap past one of its ends
+  const releaseFocus = (direction: 1 | -1) => {
+    outsideFocusAllowed = true;
+
+    if (onBoundaryExit) {
+      onBoundaryExit(direction === 1 ? 'forward' : 'backward');
+    }
+  };
+
+  // Move focus back to the element that last had focus inside the container
+  const restoreLastFocusedElement = () => {
+    if (lastFocusedElement && lastFocusedElement.isConnected && isInsideTrap(lastFocusedElement)) {
+      (lastFocusedElement as HTMLElement).focus({ preventScroll: true });
+      return;
+    }
+
+    focusFirstInContainers();
+  };
+
+  // Focus the first (or last) tabbable element of the nearest container in the given direction
+  const focusSequenceEdge = (startIndex: number, direction: 1 | -1) => {
+    const count = containerElements.length;
+
+    for (let step = 0; step < count; step++) {
+      const index = (((startIndex + direction * step) % count) + count) % count;
+      const sequence = getContainerSequence(index);
+
+      if (sequence.length > 0) {
+        (sequence[direction === 1 ? 0 : sequence.length - 1] as HTMLElement).focus();
+        return;
+      }
+    }
+
+    focusContainer();
+  };
+
+  // A guard only receives focus when it is about to leave a container or enter one from outside
+  const handleGuardFocus = (guard: FocusGuard, relatedTarget: Element | null) => {
+    const { containerIndex, position } = guard;
+    const direction = position === 'before' ? -1 : 1;
+
+    // Entering from outside starts at the end nearest the guard
+    if (!containsComposed(containerElements[containerIndex], relatedTarget)) {
+      focusSequenceEdge(containerIndex, direction === 1 ? -1 : 1);
+      return;
+    }
+
+    // Moving on to a later (or earlier) container that has something to focus
+    for (
+      let index = containerIndex + direction;
+      index >= 0 && index < containerElements.length;
+      index += direction
+    ) {
+      if (getContainerSequence(index).length > 0) {
+        focusSequenceEdge(index, direction);
+        return;
+      }
+    }
+
+    // Leaving the trap itself
+    if (boundary === 'stop') {
+      focusSequenceEdge(containerIndex, direction === 1 ? -1 : 1);
+    } else if (boundary === 'release') {
+      // Find the target first, since the exit callback may deactivate the trap and remove the guard
+      const navigate = direction === 1 ? getNextTabbable : getPreviousTabbable;
+      const target = navigate(guard.element, {
+        ...focusabilityOptions,
+        filter: (element) => !guards.some((other) => other.element === element),
+      });
+
+      // A Tab keydown may already have released focus on its way to the guard
+      if (!outsideFocusAllowed) {
+        releaseFocus(direction);
+      }
+      (target as HTMLElement | null)?.focus();
+    } else {
+      focusSequenceEdge(containerIndex + direction, direction);
+    }
+  };
+
+  const handleFocusIn = (event: FocusEvent) => {
+    // The event target is retargeted to the outermost shadow host, so use the original target
+    const target = (event.composedPath()[0] ?? event.target) as Element | null;
+    if (!target) {
+      return;
+    }
+
+    const guard = guards.find(({ element }) => element === target);
+    if (guard) {
+      handleGuardFocus(guard, event.relatedTarget as Element | null);
+      return;
+    }
+
+    // Remember where focus was inside the container so it can be restored
+    if (isInsideTrap(target)) {
+      lastFocusedElement = target;
+      outsideFocusAllowed = false;
+      clickFocusAllowed = false;
+
+      if (observer) {
+        tabOrderSnapshot = [];
+        containerElements.forEach((_, containerIndex) => {
+          tabOrderSnapshot.push(...getContainerSequence(containerIndex));
+        });
+      }
+      return;
+    }
+
+    // An allowed outside click moves focus to what it clicked, once
+    if (clickFocusAllowed) {
+      clickFocusAllowed = false;
+      return;
+    }
+
+    if (lockFocus && !outsideFocusAllowed && !isInAllowedRegion(target)) {
+      // Focus moved outside container, pull it back in
+      event.preventDefault();
+      restoreLastFocusedElement();
+    }
+  };
+
+  // Move focus to the nearest surviving neighbour when the focused element is removed,
+  // disabled or hidden, since the browser silently drops focus to the body
+  const handleMutations = () => {
+    const focused = lastFocusedElement;
+    if (
+      !focused ||
+      (focused.isConnected &&
+        isInsideTrap(focused) &&
+        canFocusProgrammatically(focused, focusabilityOptions))
+    ) {
+      return;
+    }
+
+    // Leave focus alone if it has already moved on
+    const ownerDocument = getPrimaryContainer().ownerDocument;
+    const activeElement = getActiveElement(ownerDocument);
+    if (activeElement && activeElement !== focused && activeElement !== ownerDocument.body) {
+      return;
+    }
+
+    const isSurvivor = (element: Element) =>
+      element.isConnected && isInsideTrap(element) && isTabbable(element, focusabilityOptions);
+    const index = tabOrderSnapshot.indexOf(focused);
+    const neighbour =
+      index === -1
+        ? undefined
+        : (tabOrderSnapshot.slice(index + 1).find(isSurvivor) ??
+          tabOrderSnapshot.slice(0, index).reverse().find(isSurvivor));
+
+    lastFocusedElement = null;
+    if (neighbour) {
+      (neighbour as HTMLElement).focus({ preventScroll: true });
+    } else {
+      focusContainer();
+    }
+  };
+
+  const observeContainers = () => {
+    const view = getPrimaryContainer().ownerDocument.defaultView;
+    const Observer =
+      view?.MutationObserver ?? (typeof MutationObserver !== 'undefined' ? MutationObserver : null);
+    if (!Observer) {
+      return;
+    }
+
+    observer = new Observer(handleMutations);
+    for (const containerElement of containerElements) {
+      observer.observe(containerElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        attributeFilter: FOCUSABILITY_ATTRIBUTES,
+      });
+    }
+  };
+
+  // Deactivate after an outside click, leaving focus on whatever focusable element was clicked
+  const deactivateFromClick = (target: Element) => {
+    let clickedFocusable = false;
+    for (let current: Element | null = target; current; current = current.parentElement) {
+      if (isFocusable(current, focusabilityOptions)) {
+        clickedFocusable = true;
+        break;
+      }
+    }
+
+    trap.deactivate({ returnFocus: returnFocusOnDeactivate && !clickedFocusable });
+  };
+
+  const clearClickFocus = () => {
+    clickFocusAllowed = false;
+    if (clickFocusTimeout !== null) {
+      clearTimeout(clickFocusTimeout);
+      clickFocusTimeout = null;
+    }
+  };
+
+  // Focus has moved shortly after a click ends (labels move it on `click`), so an allowance
+  // the click didn't use must not let later focus moves out of the trap
+  const handlePointerUp = () => {
+    if (!clickFocusAllowed) {
+      return;
+    }
+
+    if (clickFocusTimeout !== null) {
+      clearTimeout(clickFocusTimeout);
+    }
+    clickFocusTimeout = setTimeout(() => {
+      clickFocusTimeout = null;
+      clickFocusAllowed = false;
+    }, 0);
+  };
+
+  const handlePointerDown = (event: PointerEvent) => {
+    if (!allowOutsideClick && !clickOutsideDeactivates) {
+      return;
+    }
+
+    const target = (event.composedPath()[0] ?? event.target) as Element | null;
+    if (!target || isInsideTrap(target) || isInAllowedRegion(target)) {
+      return;
+    }
+
+    clickFocusAllowed =
+      typeof allowOutsideClick === 'function' ? allowOutsideClick(event) : allowOutsideClick;
+    const clickAllowed = clickFocusAllowed;
+
+    // Ignore further clicks while an async veto is still pending
+    if (!clickOutsideDeactivates || clickDecisionPending) {
+      return;
+    }
+
+    const decision = clickOutsideDeactivates === true ? true : clickOutsideDeactivates(event);
+
+    if (typeof decision === 'boolean') {
+      if (decision) {
+        deactivateFromClick(target);
+      }
+      return;
+    }
+
+    // Let the click move focus while the consumer decides
+    const allowedBeforeDecision = outsideFocusAllowed;
+    outsideFocusAllowed = true;
+    clickDecisionPending = true;
+
+    const keepTrap = () => {
+      outsideFocusAllowed = allowedBeforeDecision;
+
+      if (active && listening && lockFocus && !outsideFocusAllowed && !clickAllowed) {
+        const activeElement = getActiveElement(getPrimaryContainer().ownerDocument);
+        if (!isInsideTrap(activeElement)) {
+          restoreLastFocusedElement();
+        }
+      }
+    };
+
+    Promise.resolve(decision).then(
+      (allowed) => {
+        clickDecisionPending = false;
+
+        if (allowed && active) {
+          deactivateFromClick(target);
+        } else {
+          keepTrap();
+        }
+      },
+      (error) => {
+        clickDecisionPending = false;
+        console.error('Error in clickOutsideDeactivates:', error);
+        keepTrap();
+      }
+    );
+  };
+
+  // Keyboard events inside an iframe don't reach the outer document,
+  // so listen on the document of every same-origin iframe in the container too
+  const attachKeyListeners = () => {
+    detachKeyListeners();
+    keyDocuments = [];
+    for (const containerElement of containerElements) {
+      for (const keyDocument of [
+        containerElement.ownerDocument,
+        ...getFrameDocuments(containerElement),
+      ]) {
+        if (!keyDocuments.includes(keyDocument)) {
+          keyDocuments.push(keyDocument);
+        }
+      }
+    }
+    for (const keyDocument of keyDocuments) {
+      keyDocument.addEventListener('keydown', handleKeyDown);
+    }
+  };
+
+  const detachKeyListeners = () => {
+    for (const keyDocument of keyDocuments) {
+      keyDocument.removeEventListener('keydown', handleKeyDown);
+    }
+    keyDocuments = [];
+  };
+
+  const addGuards = () => {
+    removeGuards();
+
+    containerElements.forEach((containerElement, containerIndex) => {
+      const parent = containerElement.parentNode;
+      if (!parent) {
+        return;
+      }
+
+      const before = createFocusGuard(containerElement.ownerDocument);
+      const after = createFocusGuard(containerElement.ownerDocument);
+      parent.insertBefore(before, containerElement);
+      parent.insertBefore(after, containerElement.nextSibling);
+      guards.push(
+        { element: before, containerIndex, position: 'before' },
+        { element: after, containerIndex, position: 'after' }
+      );
+    });
+  };
+
+  const removeGuards = () => {
+    for (const { element } of guards) {
+      element.remove();
+    }
+    guards = [];
+  };
+
+  // Everything the background isolation must leave reachable
+  const getReachableElements = (): Element[] => [
+    ...containerElements,
+    ...getAllowedRegions(),
+    ...guards.map(({ element }) => element),
+  ];
+
+  // A frame that (re)loads gets a new document
+  const handleFrameLoad = () => {
+    if (listening) {
+      attachKeyListeners();
+    }
+  };
+
+  const addListeners = () => {
+    if (listening) {
+      return;
+    }
+
+    listening = true;
+    listenedDocument = getPrimaryContainer().ownerDocument;
+    listenedDocument.addEventListener('focusin', handleFocusIn);
+    listenedDocument.addEventListener('pointerdown', handlePointerDown, true);
+    listenedDocument.addEventListener('pointerup', handlePointerUp, true);
+    listenedDocument.addEventListener('pointercancel', handlePointerUp, true);
+    loadTargets = [...containerElements];
+    for (const loadTarget of loadTargets) {
+      loadTarget.addEventListener('load', handleFrameLoad, true);
+    }
+    attachKeyListeners();
+
+    // Tab is handled on every keypress, so keep each container's tab order cached
+    focusableIndexes = containerElements.map((containerElement) =>
+      createFocusableIndex(containerElement, focusabilityOptions)
+    );
+
+    if (focusGuards) {
+      addGuards();
+    }
+
+    if (lockFocus) {
+      observeContainers();
+    }
+  };
+
+  const detachListeners = () => {
+    listening = false;
+    listenedDocument?.removeEventListener('focusin', handleFocusIn);
+    listenedDocument?.removeEventListener('pointerdown', handlePointerDown, true);
+    listenedDocument?.removeEventListener('pointerup', handlePointerUp, true);
+    listenedDocument?.removeEventListener('pointercancel', handlePointerUp, true);
+    listenedDocument = null;
+    clearClickFocus();
+    for (const loadTarget of loadTargets) {
+      loadTarget.removeEventListener('load', handleFrameLoad, true);
+    }
+    loadTargets = [];
+    detachKeyListeners();
+    removeGuards();
+    observer?.disconnect();
+    observer = null;
+    tabOrderSnapshot = [];
+    for (const focusableIndex of focusableIndexes) {
+      focusableIndex.disconnect();
+    }
+    focusableIndexes = [];
+  };
+
+  const removeListeners = () => {
+    detachListeners();
+
+    if (cancelAutoFocus) {
+      cancelAutoFocus();
+      cancelAutoFocus = null;
+    }
+  };
+
+  // Registration on the shared trap stack
+  const stackEntry: StackedFocusTrap = {
+    suspend() {
+      suspended = true;
+      removeListeners();
+    },
+
+    resume() {
+      suspended = false;
+
+      if (!active || paused) {
+        return;
+      }
+
+      addListeners();
+
+      // Bring focus back from the trap that was just closed
+      if (!isInsideTrap(getActiveElement(getPrimaryContainer().ownerDocument))) {
+        restoreLastFocusedElement();
+      }
+    },
+
+    getContainers() {
+      return containerElements;
+    },
+  };
+
+  const trap: FocusTrap = {
+    get active() {
+      return active;
+    },
+
+    get paused() {
+      return paused || suspended;
+    },
+
+    activate() {
+      // Safety check for SSR environments
+      if (active || !getPrimaryContainer()?.ownerDocument) {
+        return trap;
+      }
+
+      active = true;
+      paused = false;
+      suspended = false;
+      lastFocusedElement = null;
+      outsideFocusAllowed = false;
+      clickFocusAllowed = false;
+
+      // Reactivated before focus was returned: the saved element is still the right one
+      if (cancelReturnFocus) {
+        cancelReturnFocus();
+        cancelReturnFocus = null;
+        hasSavedFocus = true;
+      }
+
+      // Save current focus so it can be restored on deactivation
+      if (restoreFocus && !hasSavedFocus) {
+        saveFocus(ownerId, getPrimaryContainer().ownerDocument);
+        hasSavedFocus = true;
+      }
+
+      // Pause the trap beneath this one before listening. Placed beneath traps nested inside
+      // this one, the trap waits for them to close instead.
+      if (pushFocusTrap(stackEntry)) {
+        addListeners();
+      } else {
+        suspended = true;
+      }
+
+      if (shouldIsolateBackground) {
+        releaseBackground = isolateBackground(getReachableElements());
+      }
+
+      // Auto-focus the initial focus target or the first tabbable element in the container,
+      // unless traps nested inside it are on top and move focus themselves
+      if (autoFocus && initialFocus !== false && !suspended) {
+        // Wait for the DOM to settle or the container to finish appearing
+        cancelAutoFocus = scheduleFocus(
+          getPrimaryContainer(),
+          waitFor,
+          () => {
+            cancelAutoFocus = null;
+
+            if (!focusFirstInContainers({ initialFocus })) {
+              // Log a warning about missing tabbable elements
+              console.warn('[a11y-tools] No tabbable elements found inside container.');
+              focusContainer();
+            }
+          },
+          { timeout: waitTimeout, rules: focusabilityOptions }
+        );
+      }
+
+      if (onActivate) {
+        onActivate();
+      }
+
+      return trap;
+    },
+
+    deactivate(deactivateOptions: DeactivateFocusTrapOptions = {}) {
+      if (!active) {
+        return trap;
+      }
+
+      const { returnFocus: shouldReturnFocus = returnFocusOnDeactivate } = deactivateOptions;
+
+      removeListeners();
+      active = false;
+      paused = false;
+      suspended = false;
+
+      // Make the background reachable again before the previous trap resumes
+      if (releaseBackground) {
+        releaseBackground();
+        releaseBackground = null;
+      }
+
+      // Resume the trap beneath this one
+      removeFocusTrap(stackEntry);
+
+      if (onDeactivate) {
+        onDeactivate();
+      }
+
+      if (hasSavedFocus && shouldReturnFocus) {
+        const restore = () => {
+          cancelReturnFocus = null;
+          returnFocus({ ...focusabilityOptions, ownerId });
+
+          // Call the focus restore callback if provided
+          if (onFocusRestore) {
+            onFocusRestore();
+          }
+        };
+
+        if (returnFocusWaitFor === undefined) {
+          // Use Promise to ensure proper timing for focus restoration
+          let cancelled = false;
+          Promise.resolve().then(() => {
+            if (!cancelled) {
+              restore();
+            }
+          });
+          cancelReturnFocus = () => {
+            cancelled = true;
+          };
+        } else {
+          // Let exit transitions or animations finish first
+          cancelReturnFocus = scheduleFocus(getPrimaryContainer(), returnFocusWaitFor, restore, {
+            timeout: waitTimeout,
+            rules: focusabilityOptions,
+          });
+        }
+      }
+
+      // Discard the saved element when focus is not being returned to it
+      if (hasSavedFocus && !shouldReturnFocus) {
+        popFocus(ownerId);
+      }
+
+      hasSavedFocus = false;
+      return trap;
+    },
+
+    pause() {
+      if (!active || paused) {
+        return trap;
+      }
+
+      paused = true;
+      removeListeners();
+      return trap;
+    },
+
+    unpause() {
+      if (!active || !paused) {
+        return trap;
+      }
+
+      paused = false;
+
+      // Stay paused while another trap is on top of this one
+      if (!suspended) {
+        addListeners();
+      }
+
+      return trap;
+    },
+
+    updateContainerElements(nextContainer: HTMLElement | HTMLElement[]) {
+      const nextContainers = toContainerList(nextContainer);
+      if (
+        nextContainers.length === 0 ||
+        (nextContainers.length === containerElements.length &&
+          nextContainers.every((element, index) => element === containerElements[index]))
+      ) {
+        return trap;
+      }
+
+      // Move listeners over to the new containers and their document
+      const wasListening = listening;
+      if (wasListening) {
+        detachListeners();
+      }
+
+      containerElements = nextContainers;
+
+      if (wasListening) {
+        addListeners();
+      }
+
+      // Re-isolate around the new containers
+      if (releaseBackground) {
+        releaseBackground();
+        releaseBackground = isolateBackground(getReachableElements());
+      }
+
+      return trap;
+    },
+  };
+
+  return trap;
+}
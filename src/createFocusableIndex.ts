@@ -0,0 +1,361 @@
+import { getFocusableElements, isFocusableCandidate } from './getFocusableElements';
+import { getFocusabilityRules, FocusabilityRules, VisibilityStrategy } from './isFocusable';
+import { getOwnerDocument } from './ownerDocument';
+
+/**
+ * Attributes whose changes can make an element gain or lose focusability
+ *
+ * @internal
+ */
+export const FOCUSABILITY_ATTRIBUTES = [
+  'tabindex',
+  'disabled',
+  'hidden',
+  'inert',
+  'aria-hidden',
+  'style',
+  'class',
+  'contenteditable',
+  'href',
+  'controls',
+  'type',
+  'open',
+  'name',
+  'form',
+  'checked',
+];
+
+/**
+ * Selector for radios, whose tabbability depends on the rest of their group
+ *
+ * @internal
+ */
+const RADIO_SELECTOR = 'input[type="radio"]';
+
+/**
+ * Whether a node is or contains a radio
+ *
+ * @internal
+ */
+function containsRadio(node: Node): boolean {
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return false;
+  }
+
+  const element = node as Element;
+  return element.matches(RADIO_SELECTOR) || !!element.querySelector(RADIO_SELECTOR);
+}
+
+/**
+ * Options for a focusable element index
+ */
+export interface FocusableIndexOptions extends FocusabilityRules {
+  /**
+   * Whether to only include tabbable elements, i.e. the container's tab order
+   * @default true
+   */
+  onlyTabbable?: boolean;
+
+  /**
+   * Whether to include elements inside shadow DOM
+   * @default true
+   */
+  includeShadowDOM?: boolean;
+
+  /**
+   * How to determine whether elements are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+}
+
+/**
+ * A cached, self-updating list of the focusable elements in a container
+ */
+export interface FocusableIndex {
+  /**
+   * The first element in the tab order, or null if there is none
+   */
+  readonly first: Element | null;
+
+  /**
+   * The last element in the tab order, or null if there is none
+   */
+  readonly last: Element | null;
+
+  /**
+   * Gets the element that follows an element in the tab order.
+   * The element does not need to be in the index itself.
+   */
+  next(element: Element): Element | null;
+
+  /**
+   * Gets the element that precedes an element in the tab order.
+   * The element does not need to be in the index itself.
+   */
+  prev(element: Element): Element | null;
+
+  /**
+   * Gets a copy of all indexed elements in tab order
+   */
+  all(): Element[];
+
+  /**
+   * Discards the cache so the next query rebuilds it, e.g. after a stylesheet change
+   * that the index cannot observe
+   */
+  refresh(): void;
+
+  /**
+   * Stops observing the container. Later queries rebuild the list every time.
+   */
+  disconnect(): void;
+}
+
+/**
+ * Finds where an element belongs in a list sorted in tree order
+ *
+ * @internal
+ */
+function findInsertionIndex(elements: Element[], element: Element): number {
+  let low = 0;
+  let high = elements.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (elements[middle].compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Creates an index of the focusable elements in a container. The tab order is built once,
+ * on the first query, and then patched from MutationObserver records instead of walking
+ * the whole container again, which keeps Tab handling fast in very large containers.
+ *
+ * Changes are applied incrementally while the order is plain tree order. Positive tabindex
+ * values and shadow DOM make the order depend on the whole container, so the list is
+ * rebuilt instead. Which radio of a group is tabbable depends on the whole group and on
+ * checked states that no mutation reports, so a tab order holding grouped radios is rebuilt
+ * on every query, and changes that add, remove or regroup radios rebuild it too.
+ * Mutations inside shadow roots and style changes from stylesheets are not observed;
+ * call `refresh` after them.
+ *
+ * @param container - The container to index
+ * @param options - Configuration options for the index
+ * @returns An index to query, which must be disconnected when no longer needed
+ *
+ * @example
+ * ```ts
+ * const index = createFocusableIndex(grid);
+ *
+ * grid.addEventListener('keydown', (event) => {
+ *   if (event.key === 'ArrowDown') {
+ *     (index.next(event.target as Element) as HTMLElement | null)?.focus();
+ *   }
+ * });
+ *
+ * // When the grid is torn down
+ * index.disconnect();
+ * ```
+ */
+export function createFocusableIndex(
+  container: Element | Document | ShadowRoot,
+  options: FocusableIndexOptions = {}
+): FocusableIndex {
+  const { onlyTabbable = true, includeShadowDOM = true, visibility = 'inline' } = options;
+  const rules = getFocusabilityRules(options);
+  const searchOptions = { ...rules, onlyTabbable, includeShadowDOM, visibility };
+
+  let elements: Element[] | null = null;
+  let positions: Map<Element, number> | null = null;
+  let treeOrder = true;
+  let holdsRadioGroups = false;
+  let observer: MutationObserver | null = null;
+
+  // Elements in the container's own tree without a positive tabindex sort in tree order
+  const rootNode = container.getRootNode();
+  const isInTreeOrder = (element: Element) =>
+    element.getRootNode() === rootNode && !((element as HTMLElement).tabIndex > 0);
+
+  // Checking another radio of a group moves its tab stop without any mutation record
+  const isGroupedRadio = (element: Element) =>
+    onlyTabbable && element.matches(RADIO_SELECTOR) && !!(element as HTMLInputElement).name;
+
+  const build = () => {
+    elements = getFocusableElements(container, searchOptions);
+    positions = null;
+    treeOrder = elements.every(isInTreeOrder);
+    holdsRadioGroups = elements.some(isGroupedRadio);
+    return elements;
+  };
+
+  const applyRecords = (records: MutationRecord[]) => {
+    if (!elements || records.length === 0) {
+      return;
+    }
+
+    if (!treeOrder || holdsRadioGroups) {
+      elements = null;
+      return;
+    }
+
+    // Changed attributes may affect the element and its subtree; added nodes bring their own
+    const roots: Element[] = [];
+    let removedNodes = false;
+    for (const record of records) {
+      // Radios affect the rest of their group, wherever it is, so the whole list is rebuilt
+      const changedNodes =
+        record.type === 'attributes'
+          ? [record.target]
+          : [...Array.from(record.addedNodes), ...Array.from(record.removedNodes)];
+      if (changedNodes.some(containsRadio)) {
+        elements = null;
+        return;
+      }
+
+      if (record.type === 'attributes') {
+        roots.push(record.target as Element);
+        continue;
+      }
+
+      removedNodes = removedNodes || record.removedNodes.length > 0;
+      for (const node of Array.from(record.addedNodes)) {
+        if (node.nodeType === Node.ELEMENT_NODE) {
+          roots.push(node as Element);
+        }
+      }
+    }
+
+    // Only the outermost roots still inside the container need another look
+    const dirtyRoots = roots.filter(
+      (root, index) =>
+        roots.indexOf(root) === index &&
+        (root === container || container.contains(root)) &&
+        !roots.some((other) => other !== root && other.contains(root))
+    );
+
+    if (dirtyRoots.some((root) => root === container)) {
+      build();
+      return;
+    }
+
+    let nextElements = elements;
+    if (removedNodes || dirtyRoots.length > 0) {
+      nextElements = nextElements.filter(
+        (element) =>
+          container.contains(element) && !dirtyRoots.some((root) => root.contains(element))
+      );
+    }
+
+    for (const root of dirtyRoots) {
+      const found = getFocusableElements(root, searchOptions);
+      if (isFocusableCandidate(root, onlyTabbable, visibility, rules)) {
+        found.unshift(root);
+      }
+
+      if (!found.every(isInTreeOrder)) {
+        build();
+        return;
+      }
+
+      for (const element of found) {
+        nextElements.splice(findInsertionIndex(nextElements, element), 0, element);
+      }
+    }
+
+    elements = nextElements;
+    positions = null;
+  };
+
+  // Bring the list up to date before answering a query
+  const getElements = (): Element[] => {
+    if (!observer || holdsRadioGroups) {
+      observer?.takeRecords();
+      return build();
+    }
+
+    applyRecords(observer.takeRecords());
+    return elements ?? build();
+  };
+
+  const getPosition = (list: Element[], element: Element): number | undefined => {
+    if (!positions) {
+      positions = new Map(list.map((indexed, index) => [indexed, index]));
+    }
+    return positions.get(element);
+  };
+
+  // Index of the first element after `element`, for elements that are not indexed themselves
+  const findFollowingIndex = (list: Element[], element: Element) => {
+    if (treeOrder) {
+      return findInsertionIndex(list, element);
+    }
+
+    const index = list.findIndex(
+      (indexed) => element.compareDocumentPosition(indexed) & Node.DOCUMENT_POSITION_FOLLOWING
+    );
+    return index === -1 ? list.length : index;
+  };
+
+  const view = getOwnerDocument(container).defaultView;
+  const Observer =
+    view?.MutationObserver ?? (typeof MutationObserver !== 'undefined' ? MutationObserver : null);
+  if (Observer) {
+    observer = new Observer(applyRecords);
+    observer.observe(container, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: FOCUSABILITY_ATTRIBUTES,
+    });
+  }
+
+  return {
+    get first() {
+      return getElements()[0] ?? null;
+    },
+
+    get last() {
+      const list = getElements();
+      return list[list.length - 1] ?? null;
+    },
+
+    next(element: Element) {
+      const list = getElements();
+      const position = getPosition(list, element);
+      const index = position === undefined ? findFollowingIndex(list, element) : position + 1;
+      return list[index] ?? null;
+    },
+
+    prev(element: Element) {
+      const list = getElements();
+      const position = getPosition(list, element);
+      const index = position === undefined ? findFollowingIndex(list, element) - 1 : position - 1;
+      return list[index] ?? null;
+    },
+
+    all() {
+      return getElements().slice();
+    },
+
+    refresh() {
+      observer?.takeRecords();
+      elements = null;
+      positions = null;
+    },
+
+    disconnect() {
+      observer?.disconnect();
+      observer = null;
+      elements = null;
+      positions = null;
+    },
+  };
+}
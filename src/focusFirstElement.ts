@@ -1,9 +1,40 @@
 import { getFocusableElements } from './getFocusableElements';
+import {
+  canFocusProgrammatically,
+  joinSelectors,
+  getFocusabilityRules,
+  FocusabilityRules,
+  VisibilityStrategy,
+} from './isFocusable';
+import { getActiveElement } from './getActiveElement';
+
+/**
+ * A ref object holding an element, such as one created by React's `useRef`
+ */
+export interface FocusTargetRef {
+  readonly current: Element | null;
+}
+
+/**
+ * An element to focus, given directly, as a selector within the container, or as a ref
+ */
+export type FocusTarget = Element | string | FocusTargetRef;
+
+/**
+ * Where to put focus first:
+ * - an element, a selector within the container, or a ref
+ * - a function returning any of those, called when focus is moved
+ * - `false` to leave focus where it is
+ *
+ * When the target can't be found, the first element with `autofocus` or `data-autofocus`
+ * is focused, then the first tabbable element.
+ */
+export type InitialFocus = FocusTarget | (() => FocusTarget | null | undefined) | false;
 
 /**
  * Options for focusing the first element
  */
-export interface FocusFirstElementOptions {
+export interface FocusFirstElementOptions extends FocusabilityRules {
   /**
    * Whether to only consider tabbable elements (those that can be reached via keyboard)
    * @default true
@@ -21,10 +52,104 @@ export interface FocusFirstElementOptions {
    * @default true
    */
   preventScroll?: boolean;
+
+  /**
+   * How to determine whether elements are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+
+  /**
+   * Element to focus instead of the first one
+   * @see InitialFocus
+   */
+  initialFocus?: InitialFocus;
+}
+
+/**
+ * Selector for elements that ask to be focused first
+ * @internal
+ */
+const AUTOFOCUS_SELECTOR = '[autofocus], [data-autofocus]:not([data-autofocus="false"])';
+
+/**
+ * Whether an element can receive focus programmatically, including `tabindex="-1"` targets
+ * such as dialog headings
+ * @internal
+ */
+function canReceiveFocus(
+  element: Element,
+  visibility: VisibilityStrategy | undefined,
+  rules: FocusabilityRules
+): boolean {
+  return canFocusProgrammatically(element, { ...rules, visibility });
+}
+
+/**
+ * Focuses an element and reports whether it actually received focus. Browsers silently
+ * ignore `focus()` on elements that can't take it, such as hidden or disabled ones.
+ * @internal
+ */
+function tryFocus(element: Element, preventScroll: boolean): boolean {
+  try {
+    (element as HTMLElement).focus({ preventScroll });
+  } catch (error) {
+    console.error('Error focusing element:', error);
+    return false;
+  }
+
+  return getActiveElement(element.ownerDocument) === element;
+}
+
+/**
+ * Whether an element is inside a subtree excluded by the focusability rules
+ * @internal
+ */
+function isExcluded(element: Element, rules: FocusabilityRules): boolean {
+  const exclude = joinSelectors(rules.exclude);
+  return !!exclude && !!element.closest(exclude);
+}
+
+/**
+ * Resolves an initial focus target to an element inside or related to the container
+ * @internal
+ */
+function resolveInitialFocus(
+  container: Element | Document,
+  initialFocus: InitialFocus | undefined
+): Element | null {
+  const target = typeof initialFocus === 'function' ? initialFocus() : initialFocus;
+
+  if (!target) {
+    return null;
+  }
+
+  if (typeof target === 'string') {
+    return container.querySelector(target);
+  }
+
+  // Refs are plain objects, elements are nodes
+  return 'current' in target && !('nodeType' in target) ? target.current : (target as Element);
+}
+
+/**
+ * Finds the first element inside the container marked with `autofocus` or `data-autofocus`
+ * @internal
+ */
+function findAutofocusElement(
+  container: Element | Document,
+  visibility: VisibilityStrategy | undefined,
+  rules: FocusabilityRules
+): Element | null {
+  const candidates = Array.from(container.querySelectorAll(AUTOFOCUS_SELECTOR));
+  return candidates.find((element) => canReceiveFocus(element, visibility, rules)) ?? null;
 }
 
 /**
  * Focus the first focusable element within a container.
+ * An `initialFocus` target, or an element marked with `autofocus` or `data-autofocus`,
+ * takes precedence over the first tabbable element.
  * 
  * @param container - The container element to find the first focusable element within
  * @param options - Configuration options for focusing
@@ -38,6 +163,9 @@ export interface FocusFirstElementOptions {
  * 
  * // Focus the first element, including those with tabindex="-1"
  * focusFirstElement(dialogRef.current, { onlyTabbable: false });
+ *
+ * // Focus the dialog heading
+ * focusFirstElement(dialogRef.current, { initialFocus: '#dialog-title' });
  * ```
  */
 export function focusFirstElement(
@@ -52,29 +180,41 @@ export function focusFirstElement(
   const { 
     onlyTabbable = true,
     includeShadowDOM = true,
-    preventScroll = true
+    preventScroll = true,
+    visibility,
+    initialFocus
   } = options;
+  const rules = getFocusabilityRules(options);
 
   // Safety check for SSR environments
   if (typeof document === 'undefined') {
     return null;
   }
 
+  if (initialFocus === false) {
+    return null;
+  }
+
+  // An explicit target or an autofocus element wins over the first focusable element
+  const preferredElement =
+    resolveInitialFocus(container, initialFocus) ??
+    findAutofocusElement(container, visibility, rules);
+  // Fall through to the first tabbable element when the target didn't take focus
+  if (preferredElement && tryFocus(preferredElement, preventScroll)) {
+    return preferredElement;
+  }
+
   // Get all focusable elements
   const elements = getFocusableElements(container, {
+    ...rules,
     onlyTabbable,
-    includeShadowDOM
+    includeShadowDOM,
+    visibility
   });
 
-  // Focus the first element if it exists
-  if (elements.length > 0) {
-    try {
-      // Use HTMLElement focus method with preventScroll option
-      (elements[0] as HTMLElement).focus({ preventScroll });
-      return elements[0];
-    } catch (error) {
-      console.error('Error focusing element:', error);
-    }
+  // Focus the first element if it exists and report it only if it actually took focus
+  if (elements.length > 0 && tryFocus(elements[0], preventScroll)) {
+    return elements[0];
   }
 
   return null;
@@ -106,7 +246,8 @@ export function focusFirstElementBySelector(
   }
 
   // Default options
-  const { preventScroll = true } = options;
+  const { preventScroll = true, visibility } = options;
+  const rules = getFocusabilityRules(options);
 
   // Safety check for SSR environments
   if (typeof document === 'undefined') {
@@ -119,12 +260,20 @@ export function focusFirstElementBySelector(
     
     // Find first element that's focusable among the matches
     for (const element of elements) {
+      // Skip elements that are excluded or rejected by a custom rule
+      if (isExcluded(element, rules)) {
+        continue;
+      }
+      if (rules.isFocusable && !canReceiveFocus(element, visibility, rules)) {
+        continue;
+      }
+
       // Focus the element
       try {
         (element as HTMLElement).focus({ preventScroll });
         
         // Check if focus was successful
-        if (document.activeElement === element) {
+        if (getActiveElement(element.ownerDocument) === element) {
           return element;
         }
       } catch (e) {
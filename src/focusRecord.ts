@@ -0,0 +1,373 @@
+import { getFocusableElements } from './getFocusableElements';
+import {
+  isFocusable,
+  isTabbable,
+  canFocusProgrammatically,
+  IsFocusableOptions,
+} from './isFocusable';
+
+/**
+ * A node on the path from a saved element up to `<body>`, with its element siblings at save time
+ */
+export interface SavedFocusPathEntry {
+  /**
+   * The saved element or one of its ancestors
+   */
+  element: Element;
+
+  /**
+   * The previous element sibling when focus was saved
+   */
+  previous: Element | null;
+
+  /**
+   * The next element sibling when focus was saved
+   */
+  next: Element | null;
+}
+
+/**
+ * The text selection of an `<input>` or `<textarea>` when focus was saved
+ */
+export interface SavedTextSelection {
+  start: number;
+  end: number;
+  direction: 'forward' | 'backward' | 'none';
+}
+
+/**
+ * The scroll offsets of a scroll container when focus was saved
+ */
+export interface SavedScrollPosition {
+  element: Element;
+  top: number;
+  left: number;
+}
+
+/**
+ * Everything remembered about a focused element when it was saved,
+ * so focus can still land somewhere sensible if the element is removed
+ */
+export interface SavedFocusRecord {
+  /**
+   * The element that had focus
+   */
+  element: Element;
+
+  /**
+   * The element's `id` when it was saved
+   */
+  id: string | null;
+
+  /**
+   * The element's `data-focus-key` when it was saved
+   */
+  focusKey: string | null;
+
+  /**
+   * The element and its ancestors, closest first
+   */
+  path: SavedFocusPathEntry[];
+
+  /**
+   * The selection or caret inside a text control, if the element is one
+   */
+  textSelection: SavedTextSelection | null;
+
+  /**
+   * The selected range inside the element, such as the caret in a contenteditable element
+   */
+  range: Range | null;
+
+  /**
+   * The element, its ancestors and the document scrolling element that were scrolled
+   */
+  scrollPositions: SavedScrollPosition[];
+}
+
+/**
+ * Strategy for finding a replacement when the saved element can no longer receive focus:
+ * - `'lookup'`: an element in the document with the same `id` or `data-focus-key`
+ * - `'sibling'`: the nearest surviving tabbable sibling, next before previous, walking up the ancestors
+ * - `'ancestor'`: the nearest surviving focusable ancestor
+ * - a resolver function that receives the saved record and returns the element to focus
+ */
+export type FocusRestoreStrategy =
+  | 'lookup'
+  | 'sibling'
+  | 'ancestor'
+  | ((record: SavedFocusRecord) => Element | null);
+
+/**
+ * Captures a record of an element so it can be found again or replaced later
+ *
+ * @internal
+ */
+export function createFocusRecord(element: Element): SavedFocusRecord {
+  const path: SavedFocusPathEntry[] = [];
+  const body = element.ownerDocument.body;
+
+  for (
+    let current: Element | null = element;
+    current && current !== body;
+    current = current.parentElement
+  ) {
+    path.push({
+      element: current,
+      previous: current.previousElementSibling,
+      next: current.nextElementSibling,
+    });
+  }
+
+  return {
+    element,
+    id: element.getAttribute('id'),
+    focusKey: element.getAttribute('data-focus-key'),
+    path,
+    textSelection: getTextSelection(element),
+    range: getSelectionRange(element),
+    scrollPositions: getScrollPositions(element, path),
+  };
+}
+
+/**
+ * Reads the selection of a text control. Input types without selection support report null.
+ *
+ * @internal
+ */
+function getTextSelection(element: Element): SavedTextSelection | null {
+  const tagName = element.tagName.toLowerCase();
+  if (tagName !== 'input' && tagName !== 'textarea') {
+    return null;
+  }
+
+  try {
+    const { selectionStart, selectionEnd, selectionDirection } = element as HTMLInputElement;
+    if (selectionStart === null || selectionEnd === null) {
+      return null;
+    }
+
+    return {
+      start: selectionStart,
+      end: selectionEnd,
+      direction: (selectionDirection as SavedTextSelection['direction']) ?? 'none',
+    };
+  } catch {
+    // Some input types throw when their selection is read
+    return null;
+  }
+}
+
+/**
+ * Copies the current selection range when it lies inside the element,
+ * as it does for the caret in a contenteditable element
+ *
+ * @internal
+ */
+function getSelectionRange(element: Element): Range | null {
+  const selection = element.ownerDocument.getSelection();
+  if (!selection || selection.rangeCount === 0) {
+    return null;
+  }
+
+  const range = selection.getRangeAt(0);
+  return element.contains(range.commonAncestorContainer) ? range.cloneRange() : null;
+}
+
+/**
+ * Records the offsets of every scrolled element on the path, plus the document scrolling element
+ *
+ * @internal
+ */
+function getScrollPositions(element: Element, path: SavedFocusPathEntry[]): SavedScrollPosition[] {
+  const candidates = path.map((entry) => entry.element);
+  const scrollingElement = element.ownerDocument.scrollingElement;
+  if (scrollingElement) {
+    candidates.push(scrollingElement);
+  }
+
+  return candidates
+    .filter((candidate) => candidate.scrollTop !== 0 || candidate.scrollLeft !== 0)
+    .map((candidate) => ({
+      element: candidate,
+      top: candidate.scrollTop,
+      left: candidate.scrollLeft,
+    }));
+}
+
+/**
+ * Puts back the selection, caret and scroll offsets remembered with a focus record.
+ * Call after the saved element has received focus again.
+ *
+ * @internal
+ */
+export function restoreFocusRecordState(record: SavedFocusRecord): void {
+  const { element, textSelection, range, scrollPositions } = record;
+
+  if (textSelection) {
+    try {
+      (element as HTMLInputElement).setSelectionRange(
+        textSelection.start,
+        textSelection.end,
+        textSelection.direction
+      );
+    } catch {
+      // The input type may have changed to one without selection support
+    }
+  }
+
+  if (range && element.contains(range.commonAncestorContainer)) {
+    const selection = element.ownerDocument.getSelection();
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+  }
+
+  for (const { element: scrolled, top, left } of scrollPositions) {
+    if (scrolled.isConnected) {
+      scrolled.scrollTop = top;
+      scrolled.scrollLeft = left;
+    }
+  }
+}
+
+/**
+ * Finds an element with the saved `id` or `data-focus-key`
+ *
+ * @internal
+ */
+function findByLookup(record: SavedFocusRecord, options: IsFocusableOptions): Element | null {
+  const ownerDocument = record.element.ownerDocument;
+
+  if (record.id) {
+    const byId = ownerDocument.getElementById(record.id);
+    if (byId && isFocusable(byId, options)) {
+      return byId;
+    }
+  }
+
+  if (record.focusKey) {
+    const byKey = Array.from(ownerDocument.querySelectorAll('[data-focus-key]')).find(
+      (candidate) => candidate.getAttribute('data-focus-key') === record.focusKey
+    );
+    if (byKey && isFocusable(byKey, options)) {
+      return byKey;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Gets the first or last tabbable element in a subtree, including its root
+ *
+ * @internal
+ */
+function getTabbableWithin(
+  element: Element,
+  last: boolean,
+  options: IsFocusableOptions
+): Element | null {
+  const tabbable = getFocusableElements(element, { ...options, onlyTabbable: true });
+  if (isTabbable(element, options)) {
+    tabbable.unshift(element);
+  }
+
+  return (last ? tabbable[tabbable.length - 1] : tabbable[0]) ?? null;
+}
+
+/**
+ * Finds the nearest surviving tabbable sibling, preferring the next one
+ *
+ * @internal
+ */
+function findSibling(record: SavedFocusRecord, options: IsFocusableOptions): Element | null {
+  for (const { previous, next } of record.path) {
+    for (let sibling = next; sibling; sibling = sibling.nextElementSibling) {
+      if (!sibling.isConnected) {
+        break;
+      }
+      const target = getTabbableWithin(sibling, false, options);
+      if (target) {
+        return target;
+      }
+    }
+
+    for (let sibling = previous; sibling; sibling = sibling.previousElementSibling) {
+      if (!sibling.isConnected) {
+        break;
+      }
+      const target = getTabbableWithin(sibling, true, options);
+      if (target) {
+        return target;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the nearest surviving focusable ancestor. Containers with `tabindex="-1"`
+ * count too, since they can still take focus programmatically.
+ *
+ * @internal
+ */
+function findAncestor(record: SavedFocusRecord, options: IsFocusableOptions): Element | null {
+  for (const { element } of record.path.slice(1)) {
+    if (canFocusProgrammatically(element, options)) {
+      return element;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks whether the built-in strategies could still find the element or a replacement for it:
+ * the element is connected, has an `id` or `data-focus-key` to look up, or an element on its
+ * path or one of their saved siblings is still in the document
+ *
+ * @internal
+ */
+export function canResolveFocusRecord(record: SavedFocusRecord): boolean {
+  if (record.element.isConnected || record.id || record.focusKey) {
+    return true;
+  }
+
+  return record.path.some(
+    ({ element, previous, next }) =>
+      element.isConnected || !!previous?.isConnected || !!next?.isConnected
+  );
+}
+
+/**
+ * Tries each strategy in order and returns the first replacement element found.
+ * The built-in strategies only pick elements that pass the given focusability options.
+ *
+ * @internal
+ */
+export function resolveFocusRecord(
+  record: SavedFocusRecord,
+  strategies: FocusRestoreStrategy[],
+  options: IsFocusableOptions = {}
+): Element | null {
+  for (const strategy of strategies) {
+    let target: Element | null = null;
+
+    if (typeof strategy === 'function') {
+      target = strategy(record);
+    } else if (strategy === 'lookup') {
+      target = findByLookup(record, options);
+    } else if (strategy === 'sibling') {
+      target = findSibling(record, options);
+    } else if (strategy === 'ancestor') {
+      target = findAncestor(record, options);
+    }
+
+    if (target && target !== record.element) {
+      return target;
+    }
+  }
+
+  return null;
+}
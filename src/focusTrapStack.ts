@@ -0,0 +1,100 @@
+/**
+ * A focus trap registered on the shared trap stack.
+ *
+ * @internal
+ */
+export interface StackedFocusTrap {
+  /**
+   * Stops the trap from handling events while another trap is on top of it
+   */
+  suspend(): void;
+
+  /**
+   * Lets the trap handle events again once it is back on top of the stack
+   */
+  resume(): void;
+
+  /**
+   * The trap's current containers
+   */
+  getContainers(): Element[];
+}
+
+/**
+ * Active focus traps, innermost last. Only the topmost trap listens for events,
+ * so nested traps (e.g. a confirm dialog over a modal) never fight over focus.
+ *
+ * @internal
+ */
+const trapStack: StackedFocusTrap[] = [];
+
+/**
+ * Checks whether every container of a trap sits inside one of another trap's containers
+ *
+ * @internal
+ */
+function isNestedIn(inner: StackedFocusTrap, outer: StackedFocusTrap): boolean {
+  const outerContainers = outer.getContainers();
+  return inner
+    .getContainers()
+    .every((container) =>
+      outerContainers.some(
+        (outerContainer) => outerContainer !== container && outerContainer.contains(container)
+      )
+    );
+}
+
+/**
+ * Pushes a trap onto the stack, suspending the trap that was previously on top.
+ * A trap activated after traps nested inside it, e.g. by a parent component whose effects
+ * run after its children's, goes beneath them instead and stays suspended.
+ *
+ * @returns Whether the trap ended up on top of the stack
+ * @internal
+ */
+export function pushFocusTrap(trap: StackedFocusTrap): boolean {
+  const currentTop = trapStack[trapStack.length - 1];
+
+  if (currentTop === trap) {
+    return true;
+  }
+
+  // A trap re-activated from lower down the stack moves to the top
+  const existingIndex = trapStack.indexOf(trap);
+  if (existingIndex !== -1) {
+    trapStack.splice(existingIndex, 1);
+  }
+
+  const nestedIndex = trapStack.findIndex((entry) => isNestedIn(entry, trap));
+  if (nestedIndex !== -1) {
+    trapStack.splice(nestedIndex, 0, trap);
+    return false;
+  }
+
+  if (currentTop) {
+    currentTop.suspend();
+  }
+
+  trapStack.push(trap);
+  return true;
+}
+
+/**
+ * Removes a trap from the stack. If it was the topmost trap, the trap beneath it is resumed.
+ *
+ * @internal
+ */
+export function removeFocusTrap(trap: StackedFocusTrap): void {
+  const index = trapStack.indexOf(trap);
+
+  if (index === -1) {
+    return;
+  }
+
+  const wasTop = index === trapStack.length - 1;
+  trapStack.splice(index, 1);
+
+  if (wasTop && trapStack.length > 0) {
+    trapStack[trapStack.length - 1].resume();
+  }
+}
@@ -0,0 +1,67 @@
+import { getFrameDocument, getFrameElement } from './ownerDocument';
+
+/**
+ * Gets the element that actually has focus, following `shadowRoot.activeElement`
+ * into open shadow roots and `activeElement` into same-origin iframes.
+ * `document.activeElement` only reports the outermost shadow host or iframe.
+ *
+ * @param root - The document or shadow root to start from
+ * @returns The deepest focused element, or null if nothing is focused
+ *
+ * @example
+ * ```ts
+ * // Inside a web component, this is the focused input rather than the host
+ * const focused = getActiveElement();
+ * ```
+ */
+export function getActiveElement(root?: Document | ShadowRoot | null): Element | null {
+  // Safety check for SSR environments
+  if (!root && typeof document === 'undefined') {
+    return null;
+  }
+
+  let activeElement = (root ?? document).activeElement;
+
+  while (activeElement) {
+    if (activeElement.shadowRoot?.activeElement) {
+      activeElement = activeElement.shadowRoot.activeElement;
+      continue;
+    }
+
+    // A focused frame whose own body is active has nothing more specific to report
+    const frameDocument = getFrameDocument(activeElement);
+    const frameActiveElement = frameDocument?.activeElement;
+    if (!frameActiveElement || frameActiveElement === frameDocument.body) {
+      break;
+    }
+
+    activeElement = frameActiveElement;
+  }
+
+  return activeElement;
+}
+
+/**
+ * Checks whether a node is inside a container, including inside shadow roots
+ * hosted by the container's descendants and same-origin iframes within it
+ *
+ * @internal
+ */
+export function containsComposed(container: Node, node: Node | null): boolean {
+  for (let current = node; current; ) {
+    if (container.contains(current)) {
+      return true;
+    }
+
+    const root = current.getRootNode();
+    if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+      current = (root as ShadowRoot).host;
+    } else if (root.nodeType === Node.DOCUMENT_NODE) {
+      current = getFrameElement(root as Document);
+    } else {
+      current = null;
+    }
+  }
+
+  return false;
+}
@@ -1,4 +1,19 @@
-import { isFocusable, isTabbable } from './isFocusable';
+import {
+  isFocusable,
+  isTabbable,
+  getSubtreeHiding,
+  hidesChild,
+  disablesChild,
+  getFlatTreeParentElement,
+  joinSelectors,
+  withTraversalContext,
+  getFocusabilityRules,
+  AncestorContext,
+  RadioGroupCache,
+  FocusabilityRules,
+  VisibilityStrategy,
+} from './isFocusable';
+import { getOwnerDocument } from './ownerDocument';
 
 /**
  * A list of HTML selectors that typically represent potentially focusable elements.
@@ -14,17 +29,19 @@ const POTENTIALLY_FOCUSABLE_SELECTORS = [
   'select',
   'textarea',
   'summary',
+  'iframe',
+  'embed',
+  'object',
   '[tabindex]',
-  '[contenteditable="true"]',
+  '[contenteditable]',
   'audio[controls]',
-  'video[controls]',
-  'details[open]'
+  'video[controls]'
 ].join(',');
 
 /**
  * Options for retrieving focusable elements
  */
-export interface GetFocusableElementsOptions {
+export interface GetFocusableElementsOptions extends FocusabilityRules {
   /**
    * Whether to only include tabbable elements (those that can be reached via keyboard tab navigation)
    * When true, excludes elements with tabindex="-1"
@@ -33,14 +50,284 @@ export interface GetFocusableElementsOptions {
   onlyTabbable?: boolean;
   
   /**
-   * Whether to include elements inside shadow DOM
+   * Whether to include elements inside shadow DOM. Shadow content is placed at its host's
+   * position, and slotted content at its assigned slot's position.
    * @default true
    */
   includeShadowDOM?: boolean;
+
+  /**
+   * How to determine whether elements are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+}
+
+/**
+ * Whether an element matches the candidate selectors and passes the full focusability check
+ *
+ * @internal
+ */
+export function isFocusableCandidate(
+  element: Element,
+  onlyTabbable: boolean,
+  visibility: VisibilityStrategy,
+  rules: FocusabilityRules = {}
+): boolean {
+  const isElementFocusable = onlyTabbable ? isTabbable : isFocusable;
+  return (
+    element.matches(getCandidateSelector(rules)) &&
+    isElementFocusable(element, { ...rules, visibility })
+  );
+}
+
+/**
+ * Combines the built-in candidate selectors with any extra ones
+ *
+ * @internal
+ */
+function getCandidateSelector(rules: FocusabilityRules): string {
+  return joinSelectors([POTENTIALLY_FOCUSABLE_SELECTORS, joinSelectors(rules.selectors)]);
+}
+
+/**
+ * An entry in a focus navigation scope. Shadow hosts and slots own a nested scope
+ * whose elements are inserted at the owner's position in the tab order.
+ *
+ * @internal
+ */
+interface ScopeEntry {
+  /**
+   * The element itself, if it is focusable
+   */
+  element: Element | null;
+
+  /**
+   * The tabindex used to order the entry within its scope
+   */
+  tabIndex: number;
+
+  /**
+   * The already-ordered elements of the nested scope, if any
+   */
+  nested: Element[];
+}
+
+/**
+ * Parses an element's tabindex, treating missing or invalid values as 0
+ *
+ * @internal
+ */
+function getTabIndex(element: Element): number {
+  const parsed = parseInt(element.getAttribute('tabindex') ?? '', 10);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * What the traversal knows about an element once it has been entered
+ *
+ * @internal
+ */
+interface TraversalState extends AncestorContext {
+  /**
+   * Whether the element hides its descendants, e.g. with `content-visibility: hidden`
+   */
+  contentHidden: boolean;
+}
+
+/**
+ * Settings shared by every scope of a single traversal
+ *
+ * @internal
+ */
+interface TraversalOptions {
+  onlyTabbable: boolean;
+  includeShadowDOM: boolean;
+  visibility: VisibilityStrategy;
+  rules: FocusabilityRules;
+  radioGroups: RadioGroupCache;
 }
 
 /**
- * Gets all focusable elements within a container element.
+ * Works out the traversal state of a container by checking its ancestors once,
+ * instead of once per candidate inside it
+ *
+ * @returns The container's state, or null when nothing inside it can be focused
+ * @internal
+ */
+function getContainerState(
+  container: Element | Document | ShadowRoot,
+  visibility: VisibilityStrategy,
+  exclude: string
+): TraversalState | null {
+  const state: TraversalState = { disabledByFieldset: false, contentHidden: false };
+  if (container.nodeType !== Node.ELEMENT_NODE) {
+    return state;
+  }
+
+  // Hiding follows the flat tree, a fieldset only disables controls in its own tree
+  let child: Element | null = null;
+  let sameTree = true;
+  for (let current: Element | null = container as Element; current; ) {
+    if (
+      getSubtreeHiding(current, visibility) ||
+      (child && hidesChild(current, child)) ||
+      (exclude && current.matches(exclude))
+    ) {
+      return null;
+    }
+
+    if (sameTree && child && disablesChild(current, child)) {
+      state.disabledByFieldset = true;
+    }
+    child = current;
+    current = getFlatTreeParentElement(child);
+    sameTree = sameTree && current === child.parentElement;
+  }
+
+  return state;
+}
+
+/**
+ * Orders the elements of a single focus navigation scope as the HTML spec describes:
+ * positive tabindex values first in ascending order, then everything else in tree order.
+ * Shadow roots and slots form their own scopes, inserted at their owner's position.
+ *
+ * Each scope is walked once with a TreeWalker. Hidden, inert, `aria-hidden` and excluded
+ * subtrees are skipped as soon as they are entered, and what is known about ancestors is passed down,
+ * so candidates never walk their ancestor chain again. The exception is radio groups, which are
+ * resolved once per traversal by checking each member on its own.
+ *
+ * @internal
+ */
+function collectScope(
+  roots: Element[],
+  parentState: TraversalState,
+  options: TraversalOptions
+): Element[] {
+  const { onlyTabbable, includeShadowDOM, visibility, rules, radioGroups } = options;
+  const isElementFocusable = onlyTabbable ? isTabbable : isFocusable;
+  const candidateSelector = getCandidateSelector(rules);
+  const exclude = joinSelectors(rules.exclude);
+  const entries: ScopeEntry[] = [];
+  const states = new Map<Node, TraversalState>();
+
+  // Walkers may ask about the same element again when climbing back up, so decisions are memoised
+  const decisions = new Map<Node, number>();
+
+  // Owners with a negative tabindex take their scope out of sequential navigation
+  const collectNested = (tabIndex: number, children: Element[], state: TraversalState) =>
+    onlyTabbable && tabIndex < 0 ? [] : collectScope(children, state, options);
+
+  // Decides whether to enter an element, recording it and any nested scope on the way
+  const visit = (element: Element, inherited: TraversalState): number => {
+    const parent = element.parentNode;
+    const parentElement = parent?.nodeType === Node.ELEMENT_NODE ? (parent as Element) : null;
+
+    if (
+      inherited.contentHidden ||
+      (parentElement && hidesChild(parentElement, element)) ||
+      (exclude && element.matches(exclude))
+    ) {
+      return NodeFilter.FILTER_REJECT;
+    }
+
+    const hiding = getSubtreeHiding(element, visibility);
+    if (hiding === 'element') {
+      return NodeFilter.FILTER_REJECT;
+    }
+
+    const state: TraversalState = {
+      disabledByFieldset:
+        inherited.disabledByFieldset || (!!parentElement && disablesChild(parentElement, element)),
+      contentHidden: hiding === 'content',
+    };
+
+    const candidate =
+      element.matches(candidateSelector) &&
+      isElementFocusable(
+        element,
+        withTraversalContext({ ...rules, visibility }, { ancestors: state, radioGroups })
+      )
+        ? element
+        : null;
+    const tabIndex = getTabIndex(element);
+
+    // Open shadow roots render instead of the host's light children
+    const shadowRoot = includeShadowDOM ? element.shadowRoot : null;
+    if (shadowRoot) {
+      entries.push({
+        element: candidate,
+        tabIndex,
+        nested: collectNested(tabIndex, Array.from(shadowRoot.children), state),
+      });
+      return NodeFilter.FILTER_REJECT;
+    }
+
+    // Slots render their assigned elements, or their fallback content
+    if (includeShadowDOM && element.tagName.toLowerCase() === 'slot') {
+      const assigned = (element as HTMLSlotElement).assignedElements?.() ?? [];
+      const slotted = assigned.length > 0 ? assigned : Array.from(element.children);
+      entries.push({
+        element: candidate,
+        tabIndex,
+        nested: collectNested(tabIndex, slotted, state),
+      });
+      return NodeFilter.FILTER_REJECT;
+    }
+
+    if (candidate) {
+      entries.push({ element: candidate, tabIndex, nested: [] });
+    }
+
+    states.set(element, state);
+    return NodeFilter.FILTER_ACCEPT;
+  };
+
+  for (const root of roots) {
+    if (visit(root, parentState) !== NodeFilter.FILTER_ACCEPT) {
+      continue;
+    }
+
+    // Every element the walker reaches has a parent that was entered before it
+    const walker = getOwnerDocument(root).createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
+      acceptNode: (node) => {
+        let decision = decisions.get(node);
+        if (decision === undefined) {
+          const inherited = node.parentNode ? states.get(node.parentNode) : undefined;
+          decision = inherited ? visit(node as Element, inherited) : NodeFilter.FILTER_REJECT;
+          decisions.set(node, decision);
+        }
+        return decision;
+      },
+    });
+    while (walker.nextNode()) {
+      // Elements are recorded by the filter
+    }
+  }
+
+  // Positive indices come first in ascending order (stable, so ties keep tree order),
+  // followed by tabindex="0", no tabindex and negative values in tree order
+  const positive = entries
+    .filter((entry) => entry.tabIndex > 0)
+    .sort((a, b) => a.tabIndex - b.tabIndex);
+  const rest = entries.filter((entry) => entry.tabIndex <= 0);
+
+  const ordered: Element[] = [];
+  for (const entry of [...positive, ...rest]) {
+    if (entry.element) {
+      ordered.push(entry.element);
+    }
+    ordered.push(...entry.nested);
+  }
+
+  return ordered;
+}
+
+/**
+ * Gets all focusable elements within a container element, in sequential focus
+ * navigation order across the flattened tree (shadow roots and slots included).
  * 
  * @param container - The container element to search within
  * @param options - Configuration options for the search
@@ -53,6 +340,14 @@ export interface GetFocusableElementsOptions {
  * 
  * // Get only keyboard-tabbable elements (excludes tabindex="-1")
  * const tabbableElements = getFocusableElements(modalRef.current, { onlyTabbable: true });
+ *
+ * // Include custom elements and skip a read-only preview
+ * const custom = getFocusableElements(form, {
+ *   selectors: 'my-date-picker',
+ *   exclude: '.preview',
+ *   isFocusable: (element, focusableByDefault) =>
+ *     focusableByDefault || element.tagName === 'MY-DATE-PICKER',
+ * });
  * ```
  */
 export function getFocusableElements(
@@ -65,61 +360,34 @@ export function getFocusableElements(
   }
 
   // Default options
-  const { onlyTabbable = false, includeShadowDOM = true } = options;
+  const { onlyTabbable = false, includeShadowDOM = true, visibility = 'inline' } = options;
+  const rules = getFocusabilityRules(options);
 
   // Safety check for SSR environments
   if (typeof document === 'undefined') {
     return [];
   }
 
-  // Use the appropriate function based on the onlyTabbable option
-  const isElementFocusable = onlyTabbable ? isTabbable : isFocusable;
-
   try {
-    // Query for potential focusable elements as an optimization
-    const potentiallyFocusableElements = Array.from(
-      container.querySelectorAll(POTENTIALLY_FOCUSABLE_SELECTORS)
-    );
-
-    // If we need to check shadow DOM, find all elements with shadow roots
-    if (includeShadowDOM) {
-      const elementsWithShadowRoots = Array.from(
-        container.querySelectorAll('*')
-      ).filter(
-        (el) => el.shadowRoot?.mode === 'open'
-      );
-
-      // For each shadow root, recursively get focusable elements
-      for (const elementWithShadow of elementsWithShadowRoots) {
-        if (elementWithShadow.shadowRoot) {
-          const shadowFocusableElements = getFocusableElements(
-            elementWithShadow.shadowRoot,
-            options
-          );
-          potentiallyFocusableElements.push(...shadowFocusableElements);
-        }
-      }
+    // Nothing inside a hidden, inert or aria-hidden container can be focused
+    const containerState = getContainerState(container, visibility, joinSelectors(rules.exclude));
+    if (!containerState) {
+      return [];
     }
 
-    // Filter out elements that are not actually focusable
-    const focusableElements = potentiallyFocusableElements.filter(isElementFocusable);
-
-    // Sort by tabindex (elements with positive tabindex first, in order)
-    return focusableElements.sort((a, b) => {
-      const aTabIndex = Number(a.getAttribute('tabindex') || '0');
-      const bTabIndex = Number(b.getAttribute('tabindex') || '0');
-      
-      // Positive indices come first, in ascending order
-      if (aTabIndex > 0 && bTabIndex > 0) {
-        return aTabIndex - bTabIndex;
-      }
-      
-      // Positive indices come before zero and negative
-      if (aTabIndex > 0) return -1;
-      if (bTabIndex > 0) return 1;
-      
-      // Maintain DOM order for elements with tabindex="0" or no tabindex
-      return 0;
+    // A container that is itself a shadow host renders its shadow tree
+    const rootParent =
+      includeShadowDOM && (container as Element).shadowRoot
+        ? ((container as Element).shadowRoot as ShadowRoot)
+        : container;
+
+    // Build the flattened-tree tab order, one focus navigation scope at a time
+    return collectScope(Array.from(rootParent.children), containerState, {
+      onlyTabbable,
+      includeShadowDOM,
+      visibility,
+      rules,
+      radioGroups: new Map(),
     });
   } catch (error) {
     // Safely handle errors in browser environments
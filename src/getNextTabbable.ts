@@ -0,0 +1,286 @@
+import { getFocusableElements } from './getFocusableElements';
+import { getFocusabilityRules, FocusabilityRules, VisibilityStrategy } from './isFocusable';
+import { FocusableIndex } from './createFocusableIndex';
+
+/**
+ * Options for finding the next or previous tabbable element
+ */
+export interface TabbableNavigationOptions extends FocusabilityRules {
+  /**
+   * The container whose tab order is navigated
+   * @default the element's owner document
+   */
+  container?: Element | Document | ShadowRoot | null;
+
+  /**
+   * Whether to wrap around to the other end of the container
+   * @default false
+   */
+  wrap?: boolean;
+
+  /**
+   * Predicate to skip tabbable elements that should not be navigated to
+   */
+  filter?: (element: Element) => boolean;
+
+  /**
+   * Whether to include elements inside shadow DOM
+   * @default true
+   */
+  includeShadowDOM?: boolean;
+
+  /**
+   * How to determine whether elements are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+
+  /**
+   * A focusable index to read the tab order from instead of searching the container,
+   * which makes repeated navigation in large containers cheap.
+   * `container`, `includeShadowDOM`, `visibility` and the focusability rules are then
+   * taken from the index.
+   * @see createFocusableIndex
+   */
+  index?: FocusableIndex;
+}
+
+/**
+ * Options for moving focus to the next or previous tabbable element
+ */
+export interface FocusNavigationOptions extends TabbableNavigationOptions {
+  /**
+   * Whether to prevent scrolling when focusing
+   * @default true
+   */
+  preventScroll?: boolean;
+}
+
+/**
+ * Gets the parent of a node in the flattened tree, crossing slots and shadow roots
+ *
+ * @internal
+ */
+function getFlatTreeParent(node: Node): Node | null {
+  const assignedSlot = (node as Element).assignedSlot;
+  if (assignedSlot) {
+    return assignedSlot;
+  }
+
+  if (node.parentNode) {
+    return node.parentNode;
+  }
+
+  return (node as ShadowRoot).host ?? null;
+}
+
+/**
+ * Checks whether `node` comes after `reference` in the flattened tree
+ *
+ * @internal
+ */
+function isFollowing(reference: Node, node: Node): boolean {
+  // Collect the ancestor chain of the reference, including itself
+  const referenceChain: Node[] = [];
+  for (let current: Node | null = reference; current; current = getFlatTreeParent(current)) {
+    referenceChain.push(current);
+  }
+
+  // Walk up from the node until the chains meet
+  let nodeChild: Node | null = null;
+  for (let current: Node | null = node; current; current = getFlatTreeParent(current)) {
+    const index = referenceChain.indexOf(current);
+    if (index === -1) {
+      nodeChild = current;
+      continue;
+    }
+
+    // The reference is an ancestor of (or the same as) the node
+    if (index === 0) {
+      return current !== node;
+    }
+
+    const referenceChild = referenceChain[index - 1];
+
+    // The node is an ancestor of the reference
+    if (!nodeChild) {
+      return false;
+    }
+
+    // A shadow root is rendered before unslotted light children of its host
+    if (referenceChild.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+      return true;
+    }
+    if (nodeChild.nodeType === Node.DOCUMENT_FRAGMENT_NODE) {
+      return false;
+    }
+
+    return !!(
+      referenceChild.compareDocumentPosition(nodeChild) & Node.DOCUMENT_POSITION_FOLLOWING
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Finds the tabbable element adjacent to `from` in the given direction
+ *
+ * @internal
+ */
+function getAdjacentTabbable(
+  from: Element | null,
+  direction: 1 | -1,
+  options: TabbableNavigationOptions
+): Element | null {
+  // Safety check for SSR environments
+  if (!from || typeof document === 'undefined') {
+    return null;
+  }
+
+  const {
+    container = from.ownerDocument,
+    wrap = false,
+    filter,
+    includeShadowDOM = true,
+    visibility,
+    index: focusableIndex,
+  } = options;
+
+  const tabOrder = focusableIndex
+    ? focusableIndex.all()
+    : getFocusableElements(container, {
+        ...getFocusabilityRules(options),
+        onlyTabbable: true,
+        includeShadowDOM,
+        visibility,
+      });
+  const elements = tabOrder.filter((element) => element === from || !filter || filter(element));
+
+  // Find where `from` sits in the tab order, even when it is not tabbable itself
+  let index = elements.indexOf(from);
+  if (index === -1) {
+    if (!from.isConnected) {
+      return null;
+    }
+
+    const followingIndex = elements.findIndex((element) => isFollowing(from, element));
+    const insertionIndex = followingIndex === -1 ? elements.length : followingIndex;
+    elements.splice(insertionIndex, 0, from);
+    index = insertionIndex;
+  }
+
+  const nextIndex = index + direction;
+  if (nextIndex >= 0 && nextIndex < elements.length) {
+    return elements[nextIndex];
+  }
+
+  if (!wrap) {
+    return null;
+  }
+
+  const wrapped = direction === 1 ? elements[0] : elements[elements.length - 1];
+  return wrapped === from ? null : wrapped;
+}
+
+/**
+ * Gets the tabbable element that follows an element in the tab order.
+ * Uses the same ordering and shadow DOM rules as `getFocusableElements`.
+ *
+ * @param from - The element to start from; it does not need to be tabbable itself
+ * @param options - Configuration options for the search
+ * @returns The next tabbable element, or null if there is none
+ *
+ * @example
+ * ```ts
+ * // Move to the next control after deleting a row
+ * const next = getNextTabbable(row, { container: grid, wrap: true });
+ * ```
+ */
+export function getNextTabbable(
+  from: Element | null,
+  options: TabbableNavigationOptions = {}
+): Element | null {
+  return getAdjacentTabbable(from, 1, options);
+}
+
+/**
+ * Gets the tabbable element that precedes an element in the tab order.
+ * Uses the same ordering and shadow DOM rules as `getFocusableElements`.
+ *
+ * @param from - The element to start from; it does not need to be tabbable itself
+ * @param options - Configuration options for the search
+ * @returns The previous tabbable element, or null if there is none
+ *
+ * @example
+ * ```ts
+ * const previous = getPreviousTabbable(getActiveElement(), { container: toolbar });
+ * ```
+ */
+export function getPreviousTabbable(
+  from: Element | null,
+  options: TabbableNavigationOptions = {}
+): Element | null {
+  return getAdjacentTabbable(from, -1, options);
+}
+
+/**
+ * Focuses an element found by navigation
+ *
+ * @internal
+ */
+function focusElement(element: Element | null, preventScroll: boolean): Element | null {
+  if (!element) {
+    return null;
+  }
+
+  try {
+    (element as HTMLElement).focus({ preventScroll });
+    return element;
+  } catch (error) {
+    console.error('Error focusing element:', error);
+    return null;
+  }
+}
+
+/**
+ * Moves focus to the next tabbable element.
+ *
+ * @param from - The element to start from
+ * @param options - Configuration options for navigation and focusing
+ * @returns The element that was focused, or null if there was none
+ *
+ * @example
+ * ```ts
+ * // Custom keyboard shortcut
+ * focusNext(getActiveElement(), { container: form, wrap: true });
+ * ```
+ */
+export function focusNext(
+  from: Element | null,
+  options: FocusNavigationOptions = {}
+): Element | null {
+  const { preventScroll = true, ...navigationOptions } = options;
+  return focusElement(getNextTabbable(from, navigationOptions), preventScroll);
+}
+
+/**
+ * Moves focus to the previous tabbable element.
+ *
+ * @param from - The element to start from
+ * @param options - Configuration options for navigation and focusing
+ * @returns The element that was focused, or null if there was none
+ *
+ * @example
+ * ```ts
+ * focusPrevious(getActiveElement(), { container: form });
+ * ```
+ */
+export function focusPrevious(
+  from: Element | null,
+  options: FocusNavigationOptions = {}
+): Element | null {
+  const { preventScroll = true, ...navigationOptions } = options;
+  return focusElement(getPreviousTabbable(from, navigationOptions), preventScroll);
+}
@@ -6,12 +6,48 @@
 
 // Core utilities
 export { isFocusable, isTabbable } from './isFocusable';
+export type { IsFocusableOptions, FocusabilityRules, VisibilityStrategy } from './isFocusable';
 export { getFocusableElements } from './getFocusableElements';
 export type { GetFocusableElementsOptions } from './getFocusableElements';
 export { focusFirstElement, focusFirstElementBySelector } from './focusFirstElement';
-export type { FocusFirstElementOptions } from './focusFirstElement';
-export { saveFocus, returnFocus, createFocusManager } from './returnFocus';
+export type {
+  FocusFirstElementOptions,
+  FocusTarget,
+  FocusTargetRef,
+  InitialFocus,
+} from './focusFirstElement';
+export { getActiveElement } from './getActiveElement';
+export { getNextTabbable, getPreviousTabbable, focusNext, focusPrevious } from './getNextTabbable';
+export type { TabbableNavigationOptions, FocusNavigationOptions } from './getNextTabbable';
+export { createFocusableIndex } from './createFocusableIndex';
+export type { FocusableIndex, FocusableIndexOptions } from './createFocusableIndex';
+export {
+  saveFocus,
+  returnFocus,
+  createFocusManager,
+  pushFocus,
+  popFocus,
+  peekFocus,
+  clearFocusHistory,
+} from './returnFocus';
 export type { ReturnFocusOptions } from './returnFocus';
+export type {
+  FocusRestoreStrategy,
+  SavedFocusRecord,
+  SavedFocusPathEntry,
+  SavedTextSelection,
+  SavedScrollPosition,
+} from './focusRecord';
+export { createFocusTrap } from './createFocusTrap';
+export type {
+  FocusTrap,
+  FocusTrapOptions,
+  DeactivateFocusTrapOptions,
+  AllowedOutside,
+  FocusTrapBoundary,
+  FocusBoundaryDirection,
+} from './createFocusTrap';
+export type { FocusWaitStrategy } from './scheduleFocus';
 
 // React specific
 export { useFocusTrap } from './useFocusTrap';
@@ -1,40 +1,455 @@
+import { getElementStyle } from './ownerDocument';
+
 /**
- * Checks if an element is focusable according to WCAG and browser standards.
- * Considers visibility, disabled state, tabindex, and ARIA attributes.
- * 
- * @param element - The DOM element to check for focusability
- * @returns `true` if the element is focusable, `false` otherwise
- * 
- * @example
- * ```ts
- * const button = document.querySelector('button');
- * if (isFocusable(button)) {
- *   // The button can receive focus
- * }
- * ```
+ * Strategy used to decide whether an element is visible:
+ * - `'inline'`: only inline `style` attributes are checked (cheapest, never triggers layout)
+ * - `'computed'`: `getComputedStyle`, so stylesheet rules and `content-visibility: hidden` are respected
+ * - `'checkVisibility'`: the native `Element.checkVisibility()`, falling back to `'computed'` where unsupported
+ * - `'clientRects'`: `'computed'` plus treating elements without layout boxes, or inside
+ *   zero-size containers that clip their overflow, as hidden
  */
-export function isFocusable(element: Element | null): boolean {
-  // Handle null or undefined elements
-  if (!element) {
+export type VisibilityStrategy = 'inline' | 'computed' | 'checkVisibility' | 'clientRects';
+
+/**
+ * Custom rules that adjust which elements count as focusable. Every API that checks or
+ * searches for focusable elements accepts them, so the same rules apply everywhere.
+ */
+export interface FocusabilityRules {
+  /**
+   * Extra selectors for candidates that containers are searched for, on top of the built-in
+   * ones, e.g. custom elements that delegate focus. Matches must still pass the focusability
+   * check, so they usually need a `tabindex` or an `isFocusable` override.
+   */
+  selectors?: string | string[];
+
+  /**
+   * Selectors for elements that are never focusable, along with everything inside them
+   */
+  exclude?: string | string[];
+
+  /**
+   * Decides whether an element is focusable, given what the built-in rules decided.
+   * Only called for elements that are not disabled, hidden, inert, excluded or marked
+   * with `tabindex="-1"`.
+   */
+  isFocusable?: (element: Element, focusableByDefault: boolean) => boolean;
+}
+
+/**
+ * Options for checking focusability
+ */
+export interface IsFocusableOptions extends FocusabilityRules {
+  /**
+   * How to determine whether the element is visible
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
+}
+
+/**
+ * Element with the optional native `checkVisibility()` method
+ * @internal
+ */
+type CheckVisibilityElement = Element & {
+  checkVisibility?: (options?: { checkVisibilityCSS?: boolean; visibilityProperty?: boolean }) => boolean;
+};
+
+/**
+ * How an element hides its subtree: `'element'` when the element itself and everything inside it
+ * are hidden, `'content'` when only its descendants are
+ * @internal
+ */
+export type SubtreeHiding = 'element' | 'content' | null;
+
+/**
+ * What a tree traversal already knows about an element's ancestors,
+ * so their checks don't have to be repeated for every element
+ * @internal
+ */
+export interface AncestorContext {
+  /**
+   * Whether an ancestor `fieldset[disabled]` disables the element if it is a form control
+   */
+  disabledByFieldset: boolean;
+}
+
+/**
+ * What a tree traversal knows while it checks a single element
+ * @internal
+ */
+export interface TraversalContext {
+  /**
+   * What the traversal already knows about the element's ancestors, so they aren't walked again
+   */
+  ancestors: AncestorContext;
+
+  /**
+   * Radio groups already resolved by the traversal, so each group is only resolved once
+   */
+  radioGroups: RadioGroupCache;
+}
+
+/**
+ * Radios sharing a group, and the one of them that is tabbable once it has been worked out
+ * @internal
+ */
+interface RadioGroup {
+  radios: HTMLInputElement[];
+  tabbable?: HTMLInputElement | null;
+}
+
+/**
+ * The radio groups of a tree by form owner and name
+ * @internal
+ */
+type TreeRadioGroups = Map<HTMLFormElement | null, Map<string, RadioGroup>>;
+
+/**
+ * Radio groups by tree (document or shadow root), form owner and name
+ * @internal
+ */
+export type RadioGroupCache = Map<Node, TreeRadioGroups>;
+
+/**
+ * Traversal contexts attached to the option objects a traversal creates. They are kept out of
+ * the options themselves so callers can't skip the ancestor checks by passing their own.
+ * @internal
+ */
+const traversalContexts = new WeakMap<IsFocusableOptions, TraversalContext>();
+
+/**
+ * Creates options that carry a traversal's context into `isFocusable` and `isTabbable`
+ * @internal
+ */
+export function withTraversalContext(
+  options: IsFocusableOptions,
+  context: TraversalContext
+): IsFocusableOptions {
+  const contextualOptions = { ...options };
+  traversalContexts.set(contextualOptions, context);
+  return contextualOptions;
+}
+
+/**
+ * Joins one or more selectors into a single selector list
+ * @internal
+ */
+export function joinSelectors(selectors: string | string[] | undefined): string {
+  return (Array.isArray(selectors) ? selectors : [selectors])
+    .filter((selector): selector is string => !!selector)
+    .join(',');
+}
+
+/**
+ * Picks the focusability rules out of an options object, so they can be passed on
+ * @internal
+ */
+export function getFocusabilityRules(options: FocusabilityRules): FocusabilityRules {
+  const { selectors, exclude, isFocusable } = options;
+  return { selectors, exclude, isFocusable };
+}
+
+/**
+ * Checks computed styles of the element itself
+ * @internal
+ */
+function isHiddenByOwnComputedStyle(element: Element): boolean {
+  // Visibility is inherited, so the element's own computed value already accounts for ancestors
+  const { display, visibility } = getElementStyle(element);
+  return display === 'none' || visibility === 'hidden' || visibility === 'collapse';
+}
+
+/**
+ * Checks how an element's styles hide its subtree according to the given strategy
+ * @internal
+ */
+function getStyleHiding(element: Element, visibility: VisibilityStrategy): SubtreeHiding {
+  if (visibility === 'inline') {
+    const style = (element as HTMLElement).style;
+    return style?.display === 'none' || style?.visibility === 'hidden' ? 'element' : null;
+  }
+
+  // The native check already accounts for ancestors
+  if (
+    visibility === 'checkVisibility' &&
+    typeof (element as CheckVisibilityElement).checkVisibility === 'function'
+  ) {
+    return null;
+  }
+
+  const style = getElementStyle(element);
+  if (style.display === 'none') {
+    return 'element';
+  }
+
+  // content-visibility: hidden skips rendering of the element's contents, not the element itself
+  return style.getPropertyValue('content-visibility') === 'hidden' ? 'content' : null;
+}
+
+/**
+ * Checks whether an element hides its subtree through `hidden`, `inert`, `aria-hidden="true"`
+ * or its styles, so a traversal can skip it without checking each descendant
+ * @internal
+ */
+export function getSubtreeHiding(element: Element, visibility: VisibilityStrategy): SubtreeHiding {
+  if (
+    element.hasAttribute('hidden') ||
+    element.hasAttribute('inert') ||
+    element.getAttribute('aria-hidden') === 'true'
+  ) {
+    return 'element';
+  }
+
+  return getStyleHiding(element, visibility);
+}
+
+/**
+ * Checks whether the element has no layout box or sits inside a collapsed, clipping container
+ * @internal
+ */
+function isCollapsed(element: Element): boolean {
+  if (element.getClientRects().length === 0) {
+    return true;
+  }
+
+  let parent = element.parentElement;
+  while (parent) {
+    const { width, height } = parent.getBoundingClientRect();
+    if (width === 0 || height === 0) {
+      const style = getElementStyle(parent);
+      // Some environments only report the `overflow` shorthand
+      const overflowX = style.overflowX || style.overflow;
+      const overflowY = style.overflowY || style.overflow;
+      const clipsX = overflowX === 'hidden' || overflowX === 'clip';
+      const clipsY = overflowY === 'hidden' || overflowY === 'clip';
+      if ((width === 0 && clipsX) || (height === 0 && clipsY)) {
+        return true;
+      }
+    }
+    parent = parent.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Checks whether the element's own styles hide it according to the given strategy.
+ * Ancestors hiding the element are checked separately.
+ * @internal
+ */
+function isHiddenByOwnStyle(element: Element, visibility: VisibilityStrategy): boolean {
+  switch (visibility) {
+    case 'checkVisibility': {
+      const { checkVisibility } = element as CheckVisibilityElement;
+      if (typeof checkVisibility === 'function') {
+        return !checkVisibility.call(element, {
+          checkVisibilityCSS: true,
+          visibilityProperty: true,
+        });
+      }
+      return isHiddenByOwnComputedStyle(element);
+    }
+
+    case 'clientRects':
+      return isHiddenByOwnComputedStyle(element) || isCollapsed(element);
+
+    case 'computed':
+      return isHiddenByOwnComputedStyle(element);
+
+    default:
+      return getStyleHiding(element, visibility) === 'element';
+  }
+}
+
+/**
+ * Form controls that can be disabled, either directly or by an ancestor `fieldset[disabled]`
+ * @internal
+ */
+const DISABLEABLE_TAGS = ['button', 'input', 'select', 'textarea', 'optgroup', 'option', 'fieldset'];
+
+/**
+ * `contenteditable` values that make an element an editing host
+ * @internal
+ */
+const EDITABLE_VALUES = ['', 'true', 'plaintext-only'];
+
+/**
+ * Gets the first direct child of a parent with the given tag name
+ * @internal
+ */
+function getFirstChildByTag(parent: Element, tagName: string): Element | null {
+  return (
+    Array.from(parent.children).find((child) => child.tagName.toLowerCase() === tagName) ?? null
+  );
+}
+
+/**
+ * Checks whether a `fieldset[disabled]` disables the form controls inside one of its children.
+ * Controls inside the fieldset's first `legend` stay enabled.
+ * @internal
+ */
+export function disablesChild(parent: Element, child: Element): boolean {
+  return (
+    parent.tagName.toLowerCase() === 'fieldset' &&
+    parent.hasAttribute('disabled') &&
+    getFirstChildByTag(parent, 'legend') !== child
+  );
+}
+
+/**
+ * Checks whether a closed `<details>` hides one of its children.
+ * Only the details' own summary is rendered while it is closed.
+ * @internal
+ */
+export function hidesChild(parent: Element, child: Element): boolean {
+  return (
+    parent.tagName.toLowerCase() === 'details' &&
+    !parent.hasAttribute('open') &&
+    getFirstChildByTag(parent, 'summary') !== child
+  );
+}
+
+/**
+ * Checks whether a form control is disabled, including by a `fieldset[disabled]` ancestor.
+ * A traversal passes what it already knows about the ancestors.
+ * @internal
+ */
+function isDisabled(element: Element, ancestors: AncestorContext | null = null): boolean {
+  if ((element as HTMLButtonElement).disabled) {
+    return true;
+  }
+
+  if (!DISABLEABLE_TAGS.includes(element.tagName.toLowerCase())) {
     return false;
   }
 
-  // Check if element exists in the DOM
-  if (!element.isConnected) {
+  if (ancestors) {
+    return ancestors.disabledByFieldset;
+  }
+
+  let child = element;
+  let parent = element.parentElement;
+  while (parent) {
+    if (disablesChild(parent, child)) {
+      return true;
+    }
+    child = parent;
+    parent = parent.parentElement;
+  }
+  return false;
+}
+
+/**
+ * Gets the element's parent in the flat tree: the slot it is assigned to, its parent element,
+ * or the host of the shadow root it sits in
+ * @internal
+ */
+export function getFlatTreeParentElement(element: Element): Element | null {
+  if (element.assignedSlot) {
+    return element.assignedSlot;
+  }
+
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+
+  return (element.parentNode as ShadowRoot | null)?.host ?? null;
+}
+
+/**
+ * Checks whether any ancestor hides the element: through `hidden`, `inert`,
+ * `aria-hidden="true"` or styles, or as a closed `<details>` it isn't the summary of.
+ * Ancestors are followed through slots and shadow hosts, as they are rendered.
+ * @internal
+ */
+function isHiddenByAncestors(element: Element, visibility: VisibilityStrategy): boolean {
+  let child = element;
+  let parent = getFlatTreeParentElement(element);
+  while (parent) {
+    if (getSubtreeHiding(parent, visibility) || hidesChild(parent, child)) {
+      return true;
+    }
+    child = parent;
+    parent = getFlatTreeParentElement(parent);
+  }
+  return false;
+}
+
+/**
+ * Checks whether a `summary` is the summary of its parent `details` element
+ * @internal
+ */
+function isDetailsSummary(element: Element): boolean {
+  const parent = element.parentElement;
+  return (
+    !!parent &&
+    parent.tagName.toLowerCase() === 'details' &&
+    getFirstChildByTag(parent, 'summary') === element
+  );
+}
+
+/**
+ * Checks whether an `area` belongs to an image map that an `img[usemap]` actually uses
+ * @internal
+ */
+function isAreaFocusable(area: Element): boolean {
+  if (!area.hasAttribute('href')) {
     return false;
   }
 
+  const mapName = area.closest('map')?.getAttribute('name');
+  if (!mapName) {
+    return false;
+  }
+
+  return Array.from(area.ownerDocument.querySelectorAll('img[usemap]')).some(
+    (image) => image.getAttribute('usemap') === `#${mapName}`
+  );
+}
+
+/**
+ * Checks focusability of a connected element. A traversal that has already checked
+ * the ancestors passes what it knows about them, so they aren't walked again.
+ * @internal
+ */
+function isFocusableInContext(
+  element: Element,
+  visibility: VisibilityStrategy,
+  ancestors: AncestorContext | null,
+  rules: FocusabilityRules
+): boolean {
   // Handle elements explicitly marked as not focusable
   if (element.getAttribute('tabindex') === '-1') {
     return false;
   }
 
-  // Skip hidden elements (display: none, visibility: hidden, hidden attribute)
-  if (
-    element.hasAttribute('hidden') ||
-    (element as HTMLElement).style?.display === 'none' ||
-    (element as HTMLElement).style?.visibility === 'hidden'
-  ) {
+  if (!isAvailableForFocus(element, visibility, ancestors, rules)) {
+    return false;
+  }
+
+  // A custom rule has the final say over the element's type
+  const focusableByDefault = isFocusableByType(element);
+  return rules.isFocusable ? rules.isFocusable(element, focusableByDefault) : focusableByDefault;
+}
+
+/**
+ * Checks that nothing keeps a connected element from receiving focus: it is not excluded,
+ * hidden, disabled or inert, itself or through its ancestors
+ * @internal
+ */
+function isAvailableForFocus(
+  element: Element,
+  visibility: VisibilityStrategy,
+  ancestors: AncestorContext | null,
+  rules: FocusabilityRules
+): boolean {
+  // Skip excluded elements; a traversal has already skipped excluded ancestors
+  const exclude = joinSelectors(rules.exclude);
+  if (exclude && (ancestors ? element.matches(exclude) : element.closest(exclude))) {
+    return false;
+  }
+
+  // Skip elements with the hidden attribute
+  if (element.hasAttribute('hidden')) {
     return false;
   }
 
@@ -43,28 +458,40 @@ export function isFocusable(element: Element | null): boolean {
     return false;
   }
 
-  // Check if element is disabled
-  if ((element as HTMLButtonElement).disabled) {
+  // Check if element is disabled, directly or through a disabled fieldset
+  if (isDisabled(element, ancestors)) {
     return false;
   }
 
-  // Check if any ancestor has aria-hidden="true" (inherit hidden state)
-  let parent = element.parentElement;
-  while (parent) {
-    if (
-      parent.getAttribute('aria-hidden') === 'true' ||
-      parent.hasAttribute('hidden') ||
-      (parent as HTMLElement).style?.display === 'none' ||
-      (parent as HTMLElement).style?.visibility === 'hidden'
-    ) {
-      return false;
-    }
-    parent = parent.parentElement;
+  // Skip inert elements and anything inside an inert subtree
+  if (element.hasAttribute('inert')) {
+    return false;
+  }
+
+  // Skip elements inside a hidden, inert or aria-hidden="true" ancestor, an ancestor hidden by
+  // styles or a closed <details>, unless a traversal has already ruled those out
+  if (!ancestors && isHiddenByAncestors(element, visibility)) {
+    return false;
   }
 
+  // Skip elements hidden by their own styles (display: none, visibility: hidden, ...)
+  return !isHiddenByOwnStyle(element, visibility);
+}
+
+/**
+ * Checks whether an element's type, attributes and tabindex make it focusable,
+ * once it is known not to be hidden or disabled
+ * @internal
+ */
+function isFocusableByType(element: Element): boolean {
   // Get element tag name for easier comparison
   const tagName = element.tagName.toLowerCase();
 
+  // Image map areas are only focusable through an image that uses their map
+  if (tagName === 'area' && !isAreaFocusable(element)) {
+    return false;
+  }
+
   // Handle positive tabindex (these are always focusable)
   const tabIndex = element.getAttribute('tabindex');
   if (tabIndex !== null && tabIndex !== '-1') {
@@ -77,8 +504,11 @@ export function isFocusable(element: Element | null): boolean {
   // Check for focusable elements by tag/type
   switch (tagName) {
     case 'a':
-    case 'area':
       return !!element.hasAttribute('href');
+
+    case 'area':
+      // Already checked against its image map above
+      return true;
     
     case 'input':
       // Special handling for hidden inputs
@@ -86,73 +516,251 @@ export function isFocusable(element: Element | null): boolean {
     
     case 'textarea':
     case 'select':
-    case 'summary':
     case 'button':
+    case 'iframe':
+    case 'embed':
+    case 'object':
       return true;
+
+    case 'summary':
+      // Only the summary of a details element is interactive
+      return isDetailsSummary(element);
     
     case 'audio':
     case 'video':
       return element.hasAttribute('controls');
     
-    case 'details':
-      return element.hasAttribute('open');
-    
-    default:
-      // Check for contenteditable
-      if (element.getAttribute('contenteditable') === 'true') {
+    default: {
+      // Check for contenteditable editing hosts
+      const contentEditable = element.getAttribute('contenteditable');
+      if (contentEditable !== null && EDITABLE_VALUES.includes(contentEditable.toLowerCase())) {
         return true;
       }
       
       // Other elements are not focusable by default
       return false;
+    }
   }
 }
 
 /**
- * Checks if an element is both focusable and can be reached using the Tab key
- * (excluding elements that can only be focused programmatically).
+ * Checks if an element is focusable according to WCAG and browser standards.
+ * Considers visibility, disabled state (including `fieldset[disabled]`), `inert`,
+ * closed `<details>`, image map areas, tabindex, and ARIA attributes.
  * 
- * @param element - The DOM element to check for tabbability
- * @returns `true` if the element is keyboard tabbable, `false` otherwise
+ * @param element - The DOM element to check for focusability
+ * @param options - Configuration options for the check
+ * @returns `true` if the element is focusable, `false` otherwise
  * 
  * @example
  * ```ts
- * const element = document.querySelector('.my-element');
- * if (isTabbable(element)) {
- *   // The element is part of the tab order
+ * const button = document.querySelector('button');
+ * if (isFocusable(button)) {
+ *   // The button can receive focus
  * }
+ *
+ * // Respect stylesheet rules such as `.is-hidden { display: none }`
+ * isFocusable(button, { visibility: 'computed' });
  * ```
  */
-export function isTabbable(element: Element | null): boolean {
-  if (!isFocusable(element)) {
+export function isFocusable(
+  element: Element | null,
+  options: IsFocusableOptions = {}
+): boolean {
+  // Handle null or undefined elements
+  if (!element) {
+    return false;
+  }
+
+  const { visibility = 'inline' } = options;
+
+  // Check if element exists in the DOM
+  if (!element.isConnected) {
+    return false;
+  }
+
+  const ancestors = traversalContexts.get(options)?.ancestors ?? null;
+  return isFocusableInContext(element, visibility, ancestors, options);
+}
+
+/**
+ * Checks whether an element can receive focus from script. Unlike `isFocusable`, elements with
+ * `tabindex="-1"` such as dialog headings count, as long as they are not hidden, disabled,
+ * inert or excluded.
+ * @internal
+ */
+export function canFocusProgrammatically(
+  element: Element,
+  options: IsFocusableOptions = {}
+): boolean {
+  if (!element.isConnected) {
+    return false;
+  }
+
+  const { visibility = 'inline' } = options;
+  return element.getAttribute('tabindex') === '-1'
+    ? isAvailableForFocus(element, visibility, null, options)
+    : isFocusableInContext(element, visibility, null, options);
+}
+
+/**
+ * Gets the named radios of a tree, grouped by form owner and name
+ * @internal
+ */
+function groupRadios(root: Document | ShadowRoot): TreeRadioGroups {
+  const groups: TreeRadioGroups = new Map();
+
+  for (const radio of Array.from(root.querySelectorAll<HTMLInputElement>('input[type="radio"]'))) {
+    if (!radio.name) {
+      continue;
+    }
+
+    let groupsByName = groups.get(radio.form);
+    if (!groupsByName) {
+      groupsByName = new Map();
+      groups.set(radio.form, groupsByName);
+    }
+
+    const group = groupsByName.get(radio.name);
+    if (group) {
+      group.radios.push(radio);
+    } else {
+      groupsByName.set(radio.name, { radios: [radio] });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Gets the group of a named radio: same name, same form owner and same tree
+ * (document or shadow root). A traversal groups each tree's radios once and reuses them.
+ * @internal
+ */
+function getRadioGroup(radio: HTMLInputElement, radioGroups: RadioGroupCache | null): RadioGroup {
+  const root = radio.getRootNode() as Document | ShadowRoot;
+
+  if (!radioGroups) {
+    return groupRadios(root).get(radio.form)?.get(radio.name) ?? { radios: [radio] };
+  }
+
+  let groups = radioGroups.get(root);
+  if (!groups) {
+    groups = groupRadios(root);
+    radioGroups.set(root, groups);
+  }
+
+  return groups.get(radio.form)?.get(radio.name) ?? { radios: [radio] };
+}
+
+/**
+ * Browsers only put one radio of a named group in the tab sequence:
+ * the checked one, or the first one if none is checked.
+ * @internal
+ */
+function isTabbableRadio(
+  radio: HTMLInputElement,
+  options: IsFocusableOptions,
+  radioGroups: RadioGroupCache | null
+): boolean {
+  if (!radio.name) {
+    return true;
+  }
+
+  const group = getRadioGroup(radio, radioGroups);
+  if (group.tabbable === undefined) {
+    const focusable = group.radios.filter((candidate) => isFocusable(candidate, options));
+    group.tabbable = focusable.find((candidate) => candidate.checked) ?? focusable[0] ?? null;
+  }
+
+  return group.tabbable === radio;
+}
+
+/**
+ * Checks tabbability of a connected element, reusing what a traversal knows about its ancestors
+ * @internal
+ */
+function isTabbableInContext(
+  element: Element,
+  visibility: VisibilityStrategy,
+  ancestors: AncestorContext | null,
+  rules: FocusabilityRules,
+  radioGroups: RadioGroupCache | null
+): boolean {
+  if (!isFocusableInContext(element, visibility, ancestors, rules)) {
     return false;
   }
 
   // Elements with tabindex="-1" are focusable but not tabbable
-  const tabIndex = element?.getAttribute('tabindex');
+  const tabIndex = element.getAttribute('tabindex');
   if (tabIndex === '-1') {
     return false;
   }
 
   // Check for elements that might be focusable but not tabbable
-  const tagName = element?.tagName.toLowerCase();
+  const tagName = element.tagName.toLowerCase();
   
   // Ensure links have href (focusable) and no tabindex=-1 (tabbable)
   if (tagName === 'a' || tagName === 'area') {
-    return !!element?.hasAttribute('href');
+    return !!element.hasAttribute('href');
   }
 
   // Ensure inputs are not disabled or hidden
   if (tagName === 'input') {
     const input = element as HTMLInputElement;
-    return !input.disabled && input.type !== 'hidden';
+    if (isDisabled(input, ancestors) || input.type === 'hidden') {
+      return false;
+    }
+
+    // Only one radio per group is part of the tab order
+    if (input.type === 'radio') {
+      return isTabbableRadio(input, { ...getFocusabilityRules(rules), visibility }, radioGroups);
+    }
+
+    return true;
   }
 
   // Check if buttons, selects, and textareas are not disabled
   if (tagName === 'button' || tagName === 'select' || tagName === 'textarea') {
-    return !(element as HTMLButtonElement).disabled;
+    return !isDisabled(element, ancestors);
   }
 
   // All other focusable elements should be tabbable
   return true;
-} 
\ No newline at end of file
+}
+
+/**
+ * Checks if an element is both focusable and can be reached using the Tab key
+ * (excluding elements that can only be focused programmatically).
+ * 
+ * @param element - The DOM element to check for tabbability
+ * @param options - Configuration options for the check
+ * @returns `true` if the element is keyboard tabbable, `false` otherwise
+ * 
+ * @example
+ * ```ts
+ * const element = document.querySelector('.my-element');
+ * if (isTabbable(element)) {
+ *   // The element is part of the tab order
+ * }
+ * ```
+ */
+export function isTabbable(
+  element: Element | null,
+  options: IsFocusableOptions = {}
+): boolean {
+  // Handle null or disconnected elements
+  if (!element || !element.isConnected) {
+    return false;
+  }
+
+  const { visibility = 'inline' } = options;
+  const context = traversalContexts.get(options);
+  return isTabbableInContext(
+    element,
+    visibility,
+    context?.ancestors ?? null,
+    options,
+    context?.radioGroups ?? null
+  );
+}
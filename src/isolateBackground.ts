@@ -0,0 +1,222 @@
+/**
+ * Elements that never render content and don't need to be hidden
+ *
+ * @internal
+ */
+const IGNORED_TAGS = ['script', 'style', 'template', 'link', 'meta', 'noscript'];
+
+/**
+ * Bookkeeping for an element hidden by one or more isolated containers
+ *
+ * @internal
+ */
+interface IsolationRecord {
+  /**
+   * Number of isolated containers that want this element hidden
+   */
+  count: number;
+
+  /**
+   * Number of isolated containers living inside this element, which must stay reachable
+   */
+  exempt: number;
+
+  /**
+   * The attribute used to hide the element
+   */
+  attribute: 'inert' | 'aria-hidden';
+
+  /**
+   * The attribute value before any container hid the element
+   */
+  originalValue: string | null;
+}
+
+/**
+ * Elements currently hidden by isolated containers
+ *
+ * @internal
+ */
+const isolationRecords = new Map<Element, IsolationRecord>();
+
+/**
+ * Whether the element's window supports the `inert` attribute. Checked on the element
+ * itself, since the global `HTMLElement` may belong to a different window.
+ *
+ * @internal
+ */
+function supportsInert(element: Element): boolean {
+  return 'inert' in element;
+}
+
+/**
+ * Applies or restores the hiding attribute to match the record's counters
+ *
+ * @internal
+ */
+function syncIsolation(element: Element, record: IsolationRecord): void {
+  const { attribute, originalValue } = record;
+
+  if (record.count > 0 && record.exempt === 0) {
+    element.setAttribute(attribute, attribute === 'inert' ? '' : 'true');
+    return;
+  }
+
+  if (originalValue === null) {
+    element.removeAttribute(attribute);
+  } else {
+    element.setAttribute(attribute, originalValue);
+  }
+
+  if (record.count === 0 && record.exempt === 0) {
+    isolationRecords.delete(element);
+  }
+}
+
+/**
+ * Gets the nodes on the path from a container up to `<body>`,
+ * crossing shadow root boundaries through their hosts.
+ *
+ * @internal
+ */
+function getContainerPath(container: Element): Element[] {
+  const path: Element[] = [];
+  const body = container.ownerDocument.body;
+  let current: Element = container;
+
+  while (current !== body) {
+    path.push(current);
+
+    const parent = current.parentNode;
+    if (!parent || parent.nodeType === Node.DOCUMENT_NODE) {
+      break;
+    }
+
+    current =
+      parent.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+        ? (parent as ShadowRoot).host
+        : (parent as Element);
+  }
+
+  return path;
+}
+
+/**
+ * Gets the siblings of every node on the paths from the containers up to `<body>`.
+ * Nodes on any container's path are never treated as background.
+ *
+ * @internal
+ */
+function getBackgroundElements(containers: Element[]): { siblings: Element[]; path: Element[] } {
+  const path: Element[] = [];
+  for (const container of containers) {
+    for (const element of getContainerPath(container)) {
+      if (!path.includes(element)) {
+        path.push(element);
+      }
+    }
+  }
+
+  const siblings: Element[] = [];
+  for (const element of path) {
+    const parent = element.parentNode;
+    if (!parent || parent.nodeType === Node.DOCUMENT_NODE) {
+      continue;
+    }
+
+    for (const sibling of Array.from(parent.children)) {
+      if (
+        !path.includes(sibling) &&
+        !siblings.includes(sibling) &&
+        !IGNORED_TAGS.includes(sibling.tagName.toLowerCase())
+      ) {
+        siblings.push(sibling);
+      }
+    }
+  }
+
+  return { siblings, path };
+}
+
+/**
+ * Hides everything outside a container from assistive technology and pointer/keyboard
+ * interaction by marking each sibling up the ancestor chain as `inert`
+ * (or `aria-hidden="true"` where `inert` is unsupported).
+ *
+ * Marks are reference counted, so nested or concurrent isolated containers restore
+ * the original attribute values only once the last of them is released.
+ * Several containers isolated together, such as a dialog and its portal, stay reachable
+ * from each other.
+ *
+ * @param container - The element or elements that should remain reachable
+ * @returns A function that releases this container's marks
+ *
+ * @internal
+ */
+export function isolateBackground(container: Element | Element[]): () => void {
+  const containers = Array.isArray(container) ? container : [container];
+
+  // Safety check for SSR environments
+  if (typeof document === 'undefined' || containers.length === 0) {
+    return () => undefined;
+  }
+
+  const attribute = supportsInert(containers[0]) ? 'inert' : 'aria-hidden';
+  const { siblings, path } = getBackgroundElements(containers);
+
+  const getRecord = (element: Element): IsolationRecord => {
+    let record = isolationRecords.get(element);
+
+    if (!record) {
+      record = {
+        count: 0,
+        exempt: 0,
+        attribute,
+        originalValue: element.getAttribute(attribute),
+      };
+      isolationRecords.set(element, record);
+    }
+
+    return record;
+  };
+
+  // A container opened inside content hidden by an earlier container must stay reachable
+  const exemptElements = path.filter((element) => isolationRecords.has(element));
+  for (const element of exemptElements) {
+    const record = getRecord(element);
+    record.exempt++;
+    syncIsolation(element, record);
+  }
+
+  for (const sibling of siblings) {
+    const record = getRecord(sibling);
+    record.count++;
+    syncIsolation(sibling, record);
+  }
+
+  let released = false;
+
+  return () => {
+    if (released) {
+      return;
+    }
+
+    released = true;
+
+    for (const sibling of siblings) {
+      const record = isolationRecords.get(sibling);
+      if (record) {
+        record.count--;
+        syncIsolation(sibling, record);
+      }
+    }
+
+    for (const element of exemptElements) {
+      const record = isolationRecords.get(element);
+      if (record) {
+        record.exempt--;
+        syncIsolation(element, record);
+      }
+    }
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Gets the document a node belongs to, which may be an iframe's or a popup window's
+ * document rather than the global one
+ *
+ * @internal
+ */
+export function getOwnerDocument(node: Node): Document {
+  return node.ownerDocument ?? (node as Document);
+}
+
+/**
+ * Gets computed styles using the window the element belongs to
+ *
+ * @internal
+ */
+export function getElementStyle(element: Element): CSSStyleDeclaration {
+  const view = getOwnerDocument(element).defaultView;
+  return view ? view.getComputedStyle(element) : getComputedStyle(element);
+}
+
+/**
+ * Gets the document inside an `<iframe>` or `<frame>`, or null when the element is not a frame
+ * or the frame is cross-origin
+ *
+ * @internal
+ */
+export function getFrameDocument(element: Element): Document | null {
+  const tagName = element.tagName.toLowerCase();
+  if (tagName !== 'iframe' && tagName !== 'frame') {
+    return null;
+  }
+
+  try {
+    // Reading a cross-origin frame's document returns null or throws, depending on the browser
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gets the frame element that hosts a document, or null for a top-level or cross-origin document
+ *
+ * @internal
+ */
+export function getFrameElement(ownerDocument: Document): Element | null {
+  try {
+    return ownerDocument.defaultView?.frameElement ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -1,97 +1,261 @@
+import { getActiveElement } from './getActiveElement';
+import {
+  createFocusRecord,
+  canResolveFocusRecord,
+  resolveFocusRecord,
+  restoreFocusRecordState,
+  FocusRestoreStrategy,
+  SavedFocusRecord,
+} from './focusRecord';
+import { getFocusabilityRules, FocusabilityRules, VisibilityStrategy } from './isFocusable';
+
 /**
  * Options for saving and restoring focus
  */
-export interface ReturnFocusOptions {
+export interface ReturnFocusOptions extends FocusabilityRules {
   /**
    * Whether to prevent scrolling when returning focus
    * @default true
    */
   preventScroll?: boolean;
-  
+
   /**
    * Fallback element to focus if the original element is no longer focusable
-   * @default document.body
+   * and no restore strategy found a replacement
+   * @default the body of the saved element's document
    */
   fallbackElement?: HTMLElement | null;
+
+  /**
+   * Strategies tried in order when the saved element was removed or can no longer
+   * receive focus, before falling back to `fallbackElement`
+   * @see FocusRestoreStrategy
+   * @default ['lookup', 'sibling', 'ancestor']
+   */
+  restoreStrategies?: FocusRestoreStrategy[];
+
+  /**
+   * Whether to restore the text selection, caret and scroll offsets saved with the element
+   * @default true
+   */
+  restoreState?: boolean;
+
+  /**
+   * Owner whose saved element should be restored, as passed to `saveFocus`
+   */
+  ownerId?: string;
+
+  /**
+   * How restore strategies determine whether replacement elements are visible
+   * @see VisibilityStrategy
+   * @default 'inline'
+   */
+  visibility?: VisibilityStrategy;
 }
 
 /**
- * Saved focus element from when save was called
+ * An element saved in the focus history
  * @internal
  */
-let savedFocusElement: Element | null = null;
+interface FocusHistoryEntry {
+  /**
+   * What was remembered about the element that had focus
+   */
+  record: SavedFocusRecord;
+
+  /**
+   * The owner that saved the element, if any
+   */
+  ownerId?: string;
+}
 
 /**
- * Saves the currently focused element to return to later.
- * Should be called before changing focus away from the current element
- * (e.g., when opening a modal).
- * 
+ * Saved focus elements, most recent last
+ * @internal
+ */
+const focusHistory: FocusHistoryEntry[] = [];
+
+/**
+ * Finds the most recent entry for an owner. Entries saved without an owner
+ * only match lookups without an owner.
+ * @internal
+ */
+function findEntryIndex(ownerId?: string): number {
+  for (let index = focusHistory.length - 1; index >= 0; index--) {
+    if (focusHistory[index].ownerId === ownerId) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Drops entries for removed elements that no restore strategy could find a replacement for,
+ * except the one being used
+ * @internal
+ */
+function dropStaleEntries(keep?: FocusHistoryEntry): void {
+  for (let index = focusHistory.length - 1; index >= 0; index--) {
+    const entry = focusHistory[index];
+    if (entry !== keep && !canResolveFocusRecord(entry.record)) {
+      focusHistory.splice(index, 1);
+    }
+  }
+}
+
+/**
+ * Pushes the currently focused element onto the focus history.
+ * Saving again for the same owner replaces that owner's previous entry.
+ *
+ * @param ownerId - Optional owner (e.g. a dialog id) used to restore the right element
+ * when components close out of order
+ * @param root - The document (e.g. an iframe's or popup's) or shadow root to read focus from
  * @returns The element that was saved, or null if no element was focused
- * 
+ *
  * @example
  * ```ts
- * // Save focus before opening a modal
- * const openModal = () => {
- *   saveFocus();
- *   showModal();
- * };
+ * pushFocus('settings-drawer');
  * ```
  */
-export function saveFocus(): Element | null {
+export function pushFocus(ownerId?: string, root?: Document | ShadowRoot): Element | null {
   // Safety check for SSR environments
-  if (typeof document === 'undefined') {
+  if (!root && typeof document === 'undefined') {
     return null;
   }
-  
-  savedFocusElement = document.activeElement;
-  return savedFocusElement;
+
+  const element = getActiveElement(root);
+  if (!element) {
+    return null;
+  }
+
+  if (ownerId !== undefined) {
+    const existingIndex = findEntryIndex(ownerId);
+    if (existingIndex !== -1) {
+      focusHistory.splice(existingIndex, 1);
+    }
+  }
+
+  focusHistory.push({ record: createFocusRecord(element), ownerId });
+  dropStaleEntries();
+  return element;
 }
 
 /**
- * Returns focus to the previously saved element.
- * Should be called when focus needs to be restored
- * (e.g., when closing a modal).
- * 
- * @param options - Configuration options for returning focus
- * @returns The element that was focused, or null if no element was focused
- * 
+ * Removes an entry from the focus history without moving focus.
+ * Stale entries that no restore strategy could resolve are dropped along the way.
+ *
+ * @param ownerId - The owner whose entry to remove; omit for the most recent entry saved without an owner
+ * @returns The saved element, or null if there was no matching entry
+ *
  * @example
  * ```ts
- * // Return focus when closing a modal
- * const closeModal = () => {
- *   hideModal();
- *   returnFocus();
- * };
+ * const trigger = popFocus('settings-drawer');
  * ```
  */
-export function returnFocus(options: ReturnFocusOptions = {}): Element | null {
-  // Safety check for SSR environments
-  if (typeof document === 'undefined') {
+export function popFocus(ownerId?: string): Element | null {
+  return takeFocusRecord(ownerId)?.element ?? null;
+}
+
+/**
+ * Removes an entry from the focus history and returns its full record
+ * @internal
+ */
+function takeFocusRecord(ownerId?: string): SavedFocusRecord | null {
+  const index = findEntryIndex(ownerId);
+  if (index === -1) {
+    return null;
+  }
+
+  const [entry] = focusHistory.splice(index, 1);
+  dropStaleEntries();
+  return entry.record;
+}
+
+/**
+ * Gets a saved element from the focus history without removing it.
+ *
+ * @param ownerId - The owner whose entry to read; omit for the most recent entry saved without an owner
+ * @returns The saved element, or null if there is no matching entry
+ *
+ * @example
+ * ```ts
+ * const trigger = peekFocus('settings-drawer');
+ * ```
+ */
+export function peekFocus(ownerId?: string): Element | null {
+  const index = findEntryIndex(ownerId);
+  if (index === -1) {
     return null;
   }
-  
-  const { 
+
+  const entry = focusHistory[index];
+  dropStaleEntries(entry);
+  return entry.record.element;
+}
+
+/**
+ * Removes every entry from the focus history.
+ *
+ * @example
+ * ```ts
+ * // Reset saved focus on route changes
+ * clearFocusHistory();
+ * ```
+ */
+export function clearFocusHistory(): void {
+  focusHistory.length = 0;
+}
+
+/**
+ * Focuses an element and reports whether it actually received focus
+ * @internal
+ */
+function tryFocus(element: Element, preventScroll: boolean): boolean {
+  (element as HTMLElement).focus({ preventScroll });
+  return getActiveElement(element.ownerDocument) === element;
+}
+
+/**
+ * Focuses a saved element. If it was removed or can't take focus, the restore
+ * strategies look for a replacement before falling back to the fallback element.
+ * @internal
+ */
+function restoreFocus(
+  record: SavedFocusRecord | null,
+  options: ReturnFocusOptions
+): Element | null {
+  const {
     preventScroll = true,
-    fallbackElement = document.body 
+    fallbackElement = (record?.element.ownerDocument ?? document).body,
+    restoreStrategies = ['lookup', 'sibling', 'ancestor'],
+    restoreState = true,
+    visibility,
   } = options;
-  
+
   // If no element was saved, focus the fallback
-  if (!savedFocusElement) {
+  if (!record) {
     fallbackElement?.focus({ preventScroll });
     return fallbackElement;
   }
-  
+
   try {
     // Try to focus the saved element
-    (savedFocusElement as HTMLElement).focus({ preventScroll });
-    
-    // If focus was successful, clear the saved element and return it
-    if (document.activeElement === savedFocusElement) {
-      const returnedElement = savedFocusElement;
-      savedFocusElement = null;
-      return returnedElement;
+    if (record.element.isConnected && tryFocus(record.element, preventScroll)) {
+      if (restoreState) {
+        restoreFocusRecordState(record);
+      }
+      return record.element;
     }
-    
+
+    // Look for a replacement near where the saved element used to be
+    const replacement = resolveFocusRecord(record, restoreStrategies, {
+      ...getFocusabilityRules(options),
+      visibility,
+    });
+    if (replacement && tryFocus(replacement, preventScroll)) {
+      return replacement;
+    }
+
     // If focus was unsuccessful, try the fallback
     if (fallbackElement) {
       fallbackElement.focus({ preventScroll });
@@ -99,7 +263,7 @@ export function returnFocus(options: ReturnFocusOptions = {}): Element | null {
     }
   } catch (error) {
     console.error('Error returning focus:', error);
-    
+
     // Try fallback on error
     if (fallbackElement) {
       try {
@@ -110,46 +274,93 @@ export function returnFocus(options: ReturnFocusOptions = {}): Element | null {
       }
     }
   }
-  
-  // Clear saved element
-  savedFocusElement = null;
+
   return null;
 }
 
+/**
+ * Saves the currently focused element to return to later.
+ * Should be called before changing focus away from the current element
+ * (e.g., when opening a modal). Saved elements form a history, so nested
+ * components each get their own element back.
+ *
+ * @param ownerId - Optional owner used to restore the right element when components close out of order
+ * @param root - The document or shadow root to read focus from
+ * @returns The element that was saved, or null if no element was focused
+ *
+ * @example
+ * ```ts
+ * // Save focus before opening a modal
+ * const openModal = () => {
+ *   saveFocus();
+ *   showModal();
+ * };
+ * ```
+ */
+export function saveFocus(ownerId?: string, root?: Document | ShadowRoot): Element | null {
+  return pushFocus(ownerId, root);
+}
+
+/**
+ * Returns focus to the previously saved element.
+ * Should be called when focus needs to be restored
+ * (e.g., when closing a modal).
+ *
+ * @param options - Configuration options for returning focus
+ * @returns The element that was focused, or null if no element was focused
+ *
+ * @example
+ * ```ts
+ * // Return focus when closing a modal
+ * const closeModal = () => {
+ *   hideModal();
+ *   returnFocus();
+ * };
+ * ```
+ */
+export function returnFocus(options: ReturnFocusOptions = {}): Element | null {
+  // Safety check for SSR environments
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  return restoreFocus(takeFocusRecord(options.ownerId), options);
+}
+
+/**
+ * Counter used to give each focus manager its own history owner
+ * @internal
+ */
+let focusManagerCount = 0;
+
 /**
  * Creates a scoped focus manager that remembers focus within a specific context.
  * Useful for nested focus management contexts like modals within modals.
- * 
+ *
  * @returns An object with saveFocus and returnFocus methods scoped to this instance
- * 
+ *
  * @example
  * ```ts
  * // Create a scoped focus manager for a specific dialog
  * const dialogFocusManager = createFocusManager();
- * 
+ *
  * // When opening the dialog
  * dialogFocusManager.saveFocus();
- * 
+ *
  * // When closing the dialog
  * dialogFocusManager.returnFocus();
  * ```
  */
 export function createFocusManager() {
-  let savedElement: Element | null = null;
-  
+  // Each manager owns a single entry in the shared focus history
+  const ownerId = `a11y-tools:focus-manager:${++focusManagerCount}`;
+
   return {
     /**
      * Saves the currently focused element for this specific focus manager
      */
-    saveFocus: (): Element | null => {
-      if (typeof document === 'undefined') {
-        return null;
-      }
-      
-      savedElement = document.activeElement;
-      return savedElement;
-    },
-    
+    saveFocus: (root?: Document | ShadowRoot): Element | null => pushFocus(ownerId, root),
+
     /**
      * Returns focus to the element saved by this specific focus manager
      */
@@ -157,45 +368,8 @@ export function createFocusManager() {
       if (typeof document === 'undefined') {
         return null;
       }
-      
-      const { 
-        preventScroll = true,
-        fallbackElement = document.body 
-      } = options;
-      
-      if (!savedElement) {
-        fallbackElement?.focus({ preventScroll });
-        return fallbackElement;
-      }
-      
-      try {
-        (savedElement as HTMLElement).focus({ preventScroll });
-        
-        if (document.activeElement === savedElement) {
-          const returnedElement = savedElement;
-          savedElement = null;
-          return returnedElement;
-        }
-        
-        if (fallbackElement) {
-          fallbackElement.focus({ preventScroll });
-          return fallbackElement;
-        }
-      } catch (error) {
-        console.error('Error returning focus in focus manager:', error);
-        
-        if (fallbackElement) {
-          try {
-            fallbackElement.focus({ preventScroll });
-            return fallbackElement;
-          } catch (fallbackError) {
-            console.error('Error focusing fallback element:', fallbackError);
-          }
-        }
-      }
-      
-      savedElement = null;
-      return null;
-    }
+
+      return restoreFocus(takeFocusRecord(ownerId), options);
+    },
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,159 @@
+import { getFocusableElements } from './getFocusableElements';
+import { isFocusable, getFocusabilityRules, FocusabilityRules } from './isFocusable';
+import { getElementStyle } from './ownerDocument';
+
+/**
+ * What to wait for before moving focus:
+ * - a number: a fixed delay in milliseconds
+ * - `'frame'`: the next animation frame
+ * - `'transition'` / `'animation'`: `transitionend` / `animationend` on the container
+ * - `'visible'`: until the first focusable element (or the container) is actually rendered visible
+ * - a Promise, or a function returning one, that settles when focus can move
+ *
+ * Event and visibility waits give up after `waitTimeout` milliseconds.
+ */
+export type FocusWaitStrategy =
+  | number
+  | 'frame'
+  | 'transition'
+  | 'animation'
+  | 'visible'
+  | PromiseLike<unknown>
+  | (() => PromiseLike<unknown>);
+
+/**
+ * Timing options for a scheduled focus move
+ * @internal
+ */
+interface ScheduleFocusOptions {
+  /**
+   * Longest time to wait for an event or for visibility, in milliseconds
+   */
+  timeout: number;
+
+  /**
+   * Rules that decide which element inside the container is the first focusable one
+   */
+  rules?: FocusabilityRules;
+}
+
+/**
+ * Requests an animation frame from the container's window, falling back to a short timeout
+ * @internal
+ */
+function requestFrame(container: Element, callback: () => void): () => void {
+  const view = container.ownerDocument.defaultView;
+
+  if (view && typeof view.requestAnimationFrame === 'function') {
+    const frameId = view.requestAnimationFrame(() => callback());
+    return () => view.cancelAnimationFrame(frameId);
+  }
+
+  const timeoutId = setTimeout(callback, 16);
+  return () => clearTimeout(timeoutId);
+}
+
+/**
+ * Whether the container and its first focusable element are rendered visible
+ * @internal
+ */
+function isRenderedVisible(container: Element, rules: FocusabilityRules): boolean {
+  const { display, visibility } = getElementStyle(container);
+  if (display === 'none' || visibility === 'hidden' || visibility === 'collapse') {
+    return false;
+  }
+
+  const [candidate] = getFocusableElements(container, rules);
+  return !candidate || isFocusable(candidate, { ...rules, visibility: 'checkVisibility' });
+}
+
+/**
+ * Runs a callback once the container is ready to receive focus
+ *
+ * @returns A function that cancels the callback if it hasn't run yet
+ * @internal
+ */
+export function scheduleFocus(
+  container: Element,
+  waitFor: FocusWaitStrategy,
+  callback: () => void,
+  options: ScheduleFocusOptions
+): () => void {
+  let done = false;
+  const cleanups: (() => void)[] = [];
+
+  const cancel = () => {
+    done = true;
+    cleanups.forEach((cleanup) => cleanup());
+    cleanups.length = 0;
+  };
+
+  const run = () => {
+    if (!done) {
+      cancel();
+      callback();
+    }
+  };
+
+  if (typeof waitFor === 'number') {
+    const timeoutId = setTimeout(run, waitFor);
+    cleanups.push(() => clearTimeout(timeoutId));
+    return cancel;
+  }
+
+  if (waitFor === 'frame') {
+    cleanups.push(requestFrame(container, run));
+    return cancel;
+  }
+
+  // Event and visibility waits must not hang when nothing ever happens
+  const timeoutId = setTimeout(run, options.timeout);
+  cleanups.push(() => clearTimeout(timeoutId));
+
+  if (waitFor === 'transition' || waitFor === 'animation') {
+    const eventTypes =
+      waitFor === 'transition'
+        ? ['transitionend', 'transitioncancel']
+        : ['animationend', 'animationcancel'];
+
+    // Transitions of descendants bubble up; only the container's own one counts
+    const handleEnd = (event: Event) => {
+      if (event.target === container) {
+        run();
+      }
+    };
+
+    for (const eventType of eventTypes) {
+      container.addEventListener(eventType, handleEnd);
+      cleanups.push(() => container.removeEventListener(eventType, handleEnd));
+    }
+    return cancel;
+  }
+
+  if (waitFor === 'visible') {
+    const check = () => {
+      if (isRenderedVisible(container, getFocusabilityRules(options.rules ?? {}))) {
+        run();
+      } else if (!done) {
+        cleanups.push(requestFrame(container, check));
+      }
+    };
+
+    check();
+    return cancel;
+  }
+
+  // A Promise, or a function returning one; rejections still move focus
+  try {
+    const promise = typeof waitFor === 'function' ? waitFor() : waitFor;
+    Promise.resolve(promise).then(run, (error) => {
+      console.error('Error waiting to move focus:', error);
+      run();
+    });
+  } catch (error) {
+    console.error('Error waiting to move focus:', error);
+    run();
+  }
+
+  return cancel;
+}
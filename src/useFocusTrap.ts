@@ -1,51 +1,21 @@
 import { useEffect, useRef, RefObject } from 'react';
-import { getFocusableElements } from './getFocusableElements';
-import { focusFirstElement } from './focusFirstElement';
-import { saveFocus, returnFocus } from './returnFocus';
+import { createFocusTrap, FocusTrap, FocusTrapOptions } from './createFocusTrap';
 
 /**
  * Configuration options for the useFocusTrap hook
  */
-export interface UseFocusTrapOptions {
+export interface UseFocusTrapOptions extends FocusTrapOptions {
   /**
    * Whether the focus trap is active
    * @default true
    */
   active?: boolean;
-  
-  /**
-   * Whether to auto-focus within the container when the trap is activated
-   * @default true
-   */
-  autoFocus?: boolean;
-  
-  /**
-   * Whether to restore focus when the trap is deactivated
-   * @default true
-   */
-  restoreFocus?: boolean;
-  
-  /**
-   * Whether to lock focus even if the DOM updates inside the container
-   * @default true
-   */
-  lockFocus?: boolean;
-  
-  /**
-   * Whether to return focus to the previously focused element when the trap is deactivated
-   * @default true
-   */
-  returnFocusOnDeactivate?: boolean;
-  
-  /**
-   * Callback fired when a Tab key is pressed that would exit the container
-   */
-  onEscapeKey?: (event: KeyboardEvent) => void;
-  
+
   /**
-   * Callback fired when focus is restored to the original element
+   * Additional containers that belong to the trap, such as a listbox rendered in a portal.
+   * Focus can move freely between them and the container the returned ref is attached to.
    */
-  onFocusRestore?: () => void;
+  containerRefs?: RefObject<HTMLElement | null>[];
 }
 
 /**
@@ -78,186 +48,145 @@ export function useFocusTrap<T extends HTMLElement = HTMLElement>(
     restoreFocus = true,
     lockFocus = true,
     returnFocusOnDeactivate = true,
-    onEscapeKey,
-    onFocusRestore
+    isolateBackground = false,
+    focusGuards = false,
+    boundary = 'wrap',
+    visibility = 'inline',
   } = options;
-  
+
+  // Only hand Escape callbacks to the trap when they are configured
+  const hasEscapeKeyHandler = !!options.onEscapeKey;
+  const hasEscapeDeactivates = !!options.escapeDeactivates;
+
+  // Likewise for the click-outside policy
+  const hasAllowOutsideClick = !!options.allowOutsideClick;
+  const hasClickOutsideDeactivates = !!options.clickOutsideDeactivates;
+
+  // A custom focusability rule is read whenever it is needed
+  const hasFocusableOverride = !!options.isFocusable;
+
+  // The initial focus target is read when focus moves, so only disabling it recreates the trap
+  const initialFocusDisabled = options.initialFocus === false;
+
   // Reference to the container element
   const containerRef = useRef<T>(null);
-  
-  // Track if we've saved focus already
-  const hasSavedFocus = useRef(false);
-  
-  // Keydown event handler
-  useEffect(() => {
-    if (typeof window === 'undefined') return undefined;
-    
-    if (!active || !containerRef.current) {
-      return undefined;
-    }
-    
-    const handleKeyDown = (event: KeyboardEvent) => {
-      // Only handle if the focus trap is active
-      if (!active || !containerRef.current) {
-        return;
-      }
-      
-      // Handle escape key press if callback provided
-      if (event.key === 'Escape' && onEscapeKey) {
-        onEscapeKey(event);
-        return;
-      }
-      
-      // Only handle tab key
-      if (event.key !== 'Tab') {
-        return;
-      }
-      
-      // Get all tabbable elements in the container
-      const tabbableElements = getFocusableElements(containerRef.current, {
-        onlyTabbable: true
-      });
-      
-      // If there are no tabbable elements, keep focus on the container itself
-      if (tabbableElements.length === 0) {
-        event.preventDefault();
-        (containerRef.current as HTMLElement).focus();
-        return;
-      }
-      
-      // Get first and last tabbable element
-      const firstElement = tabbableElements[0];
-      const lastElement = tabbableElements[tabbableElements.length - 1];
-      
-      // Handle tab with shift key
-      if (event.shiftKey) {
-        // If shift+tab on first element, move to last element
-        if (document.activeElement === firstElement) {
-          event.preventDefault();
-          (lastElement as HTMLElement).focus();
-        }
-      } 
-      // Handle tab without shift key
-      else {
-        // If tab on last element, move to first element
-        if (document.activeElement === lastElement) {
-          event.preventDefault();
-          (firstElement as HTMLElement).focus();
-        }
-      }
-    };
-    
-    // Add event listener to document
-    document.addEventListener('keydown', handleKeyDown);
-    
-    // Clean up event listener
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [active, onEscapeKey]);
-  
-  // Auto-focus effect
+
+  // The underlying framework-agnostic trap while active
+  const trapRef = useRef<FocusTrap | null>(null);
+
+  // Keep the latest callbacks without re-creating the trap on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // The attached container plus any additional ones that are currently mounted
+  const getContainers = (): HTMLElement[] => {
+    const additional = (optionsRef.current.containerRefs ?? []).map((ref) => ref.current);
+    return [containerRef.current, ...additional].filter(
+      (element): element is HTMLElement => !!element
+    );
+  };
+
+  // Create and activate the trap while active
   useEffect(() => {
     if (typeof window === 'undefined') return undefined;
-    
-    // Skip if not active or container ref not available
+
     if (!active || !containerRef.current) {
       return undefined;
     }
-    
-    // Save current focus if we haven't already
-    if (restoreFocus && !hasSavedFocus.current) {
-      saveFocus();
-      hasSavedFocus.current = true;
-    }
-    
-    // Auto-focus the first tabbable element in the container
-    if (autoFocus) {
-      // Small delay to allow for DOM to settle
-      const timeoutId = setTimeout(() => {
-        if (containerRef.current) {
-          const focused = focusFirstElement(containerRef.current);
-          
-          // If no focusable elements found, focus the container itself
-          if (!focused && containerRef.current) {
-            // Log a warning about missing tabbable elements
-            console.warn(
-              '[a11y-tools] No tabbable elements found inside container.'
-            );
-            
-            // Set tabindex to -1 if not already set to allow focus
-            if (!containerRef.current.hasAttribute('tabindex')) {
-              containerRef.current.setAttribute('tabindex', '-1');
-            }
-            
-            // Focus the container
-            (containerRef.current as HTMLElement).focus({
-              preventScroll: true
-            });
+
+    const trap = createFocusTrap(getContainers(), {
+      autoFocus,
+      restoreFocus,
+      lockFocus,
+      returnFocusOnDeactivate,
+      isolateBackground,
+      focusGuards,
+      boundary,
+      visibility,
+      initialFocus: initialFocusDisabled
+        ? false
+        : () => {
+            const { initialFocus } = optionsRef.current;
+            return typeof initialFocus === 'function' ? initialFocus() : initialFocus || null;
+          },
+      // Wait strategies may be Promises and regions and selectors may be arrays, so these are
+      // read when the trap is created
+      waitFor: optionsRef.current.waitFor,
+      returnFocusWaitFor: optionsRef.current.returnFocusWaitFor,
+      waitTimeout: optionsRef.current.waitTimeout,
+      allowedOutside: optionsRef.current.allowedOutside,
+      regionCycleKey: optionsRef.current.regionCycleKey,
+      selectors: optionsRef.current.selectors,
+      exclude: optionsRef.current.exclude,
+      isFocusable: hasFocusableOverride
+        ? (element, focusableByDefault) =>
+            optionsRef.current.isFocusable?.(element, focusableByDefault) ?? focusableByDefault
+        : undefined,
+      onEscapeKey: hasEscapeKeyHandler
+        ? (event) => optionsRef.current.onEscapeKey?.(event)
+        : undefined,
+      escapeDeactivates: hasEscapeDeactivates
+        ? (event) => {
+            const { escapeDeactivates } = optionsRef.current;
+            return typeof escapeDeactivates === 'function'
+              ? escapeDeactivates(event)
+              : !!escapeDeactivates;
           }
-        }
-      }, 20);
-      
-      return () => clearTimeout(timeoutId);
-    }
-    
-    return undefined;
-  }, [active, autoFocus, restoreFocus]);
-  
-  // Observe DOM changes to ensure focus remains trapped
-  useEffect(() => {
-    if (typeof window === 'undefined') return undefined;
-    
-    if (!active || !lockFocus || !containerRef.current) {
-      return undefined;
-    }
-    
-    // Create a function to handle focus events
-    const handleFocusOut = (event: FocusEvent) => {
-      if (
-        active &&
-        containerRef.current &&
-        event.target &&
-        !containerRef.current.contains(event.target as Node)
-      ) {
-        // Focus moved outside container, pull it back in
-        event.preventDefault();
-        focusFirstElement(containerRef.current);
-      }
-    };
-    
-    // Add focus event listener to document
-    document.addEventListener('focusin', handleFocusOut as EventListener);
-    
-    // Clean up
+        : false,
+      allowOutsideClick: hasAllowOutsideClick
+        ? (event) => {
+            const { allowOutsideClick } = optionsRef.current;
+            return typeof allowOutsideClick === 'function'
+              ? allowOutsideClick(event)
+              : !!allowOutsideClick;
+          }
+        : false,
+      clickOutsideDeactivates: hasClickOutsideDeactivates
+        ? (event) => {
+            const { clickOutsideDeactivates } = optionsRef.current;
+            return typeof clickOutsideDeactivates === 'function'
+              ? clickOutsideDeactivates(event)
+              : !!clickOutsideDeactivates;
+          }
+        : false,
+      onBoundaryExit: (direction) => optionsRef.current.onBoundaryExit?.(direction),
+      onActivate: () => optionsRef.current.onActivate?.(),
+      onDeactivate: () => optionsRef.current.onDeactivate?.(),
+      onFocusRestore: () => optionsRef.current.onFocusRestore?.(),
+    });
+
+    trapRef.current = trap;
+    trap.activate();
+
+    // Deactivating restores focus, so this also covers unmounting
     return () => {
-      document.removeEventListener('focusin', handleFocusOut as EventListener);
+      trap.deactivate();
+      trapRef.current = null;
     };
-  }, [active, lockFocus]);
-  
-  // Return focus when deactivated
+  }, [
+    active,
+    autoFocus,
+    restoreFocus,
+    lockFocus,
+    returnFocusOnDeactivate,
+    isolateBackground,
+    focusGuards,
+    boundary,
+    visibility,
+    hasEscapeKeyHandler,
+    hasEscapeDeactivates,
+    hasAllowOutsideClick,
+    hasClickOutsideDeactivates,
+    hasFocusableOverride,
+    initialFocusDisabled,
+  ]);
+
+  // Follow the containers if React swaps or mounts the underlying elements
   useEffect(() => {
-    if (typeof window === 'undefined') return undefined;
-    
-    if (!returnFocusOnDeactivate) {
-      return undefined;
+    if (trapRef.current && containerRef.current) {
+      trapRef.current.updateContainerElements(getContainers());
     }
-    
-    return () => {
-      if (hasSavedFocus.current) {
-        // Use Promise to ensure proper timing for focus restoration
-        Promise.resolve().then(() => {
-          returnFocus();
-          hasSavedFocus.current = false;
-          
-          // Call the focus restore callback if provided
-          if (onFocusRestore) {
-            onFocusRestore();
-          }
-        });
-      }
-    };
-  }, [returnFocusOnDeactivate, onFocusRestore]);
-  
+  });
+
   return containerRef;
-} 
\ No newline at end of file
+}